@@ -0,0 +1,47 @@
+// Lexer/parser throughput benchmarks
+// Run with `make bench`
+import { LatexLexer, LatexParser } from "./latex"
+import { MathLexer, MathParser } from "./mathmode"
+
+// a chunk of text that roughly resembles a real document
+const LATEX_CHUNK = `\\section{Introduction}\\label{sec:intro}
+% a comment, with some {punctuation} = (that is ignored)
+Let $f \\colon X \\to Y$ be a function, and consider the set
+\\[ S = \\{ x \\in X \\mid f(x) = 0 \\}. \\]
+\\begin{theorem}[Main result]
+  For every $\\epsilon > 0$ there exists $\\delta > 0$ such that $|f(x) - f(y)| < \\epsilon$
+  whenever $|x - y| < \\delta$, see \\cite{rudin} and \\textbf{Section}~\\ref{sec:intro}.
+\\end{theorem}
+`;
+
+const MATH_CHUNK = "\\sum_{i=1}^{n} a_i x^{2} + \\frac{1}{2} \\int_0^1 f(x) dx - \\alpha \\cup B \\cap C_{k} + |x - y| < 42 ";
+
+function repeat(chunk: string, bytes: number) {
+  return chunk.repeat(Math.ceil(bytes / chunk.length));
+}
+
+// runs `fn` several times and reports the median throughput
+function bench(name: string, text: string, fn: (text: string) => number) {
+  const runs = 7;
+  let times: number[] = [];
+  let count = 0;
+  fn(text); // warmup
+  for (let i = 0; i < runs; i++) {
+    const start = performance.now();
+    count = fn(text);
+    times.push(performance.now() - start);
+  }
+  times.sort((a, b) => a - b);
+  const ms = times[Math.floor(runs / 2)];
+  const mb = text.length / (1024 * 1024);
+  console.log(`${name.padEnd(16)} ${(mb / (ms / 1000)).toFixed(2).padStart(8)} MB/s  (${ms.toFixed(1)} ms, ${count} items)`);
+}
+
+const SIZE = 2 * 1024 * 1024;
+const latex = repeat(LATEX_CHUNK, SIZE);
+const math = repeat(MATH_CHUNK, SIZE);
+
+bench("latex lexer", latex, (text) => new LatexLexer(text).tokenize().length);
+bench("math lexer", math, (text) => new MathLexer(text).tokenize().length);
+bench("latex parser", latex, (text) => new LatexParser(new LatexLexer(text)).parse().children.length);
+bench("math parser", math, (text) => new MathParser(new MathLexer(text)).parse().children.length);
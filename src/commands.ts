@@ -0,0 +1,274 @@
+// Command signatures, which tell the LaTeX parser which arguments a command takes
+import { Maybe, assert } from "./util"
+
+export enum ArgKind {
+  Mandatory, // {...}
+  Optional, // [...]
+  Parameters, // TeX parameter text (such as the #1#2 in \def\foo#1#2{...})
+  Delimited, // a verbatim argument between two copies of any character (such as \verb|...|), lexed in a verbatim mode
+}
+
+// how the content of an argument should be interpreted
+export enum ArgMode {
+  Text,
+  Math,
+  Verbatim, // raw tokens, without any further parsing (such as urls)
+}
+
+export interface ArgSpec {
+  kind: ArgKind,
+  mode: ArgMode,
+}
+
+export interface CommandSignature {
+  name: string,
+  starred: boolean, // whether the command may be followed by a *
+  args: ArgSpec[],
+}
+
+export interface EnvironmentSignature {
+  name: string, // including the star, for starred variants
+  mode: ArgMode, // how the body of the environment should be interpreted
+  args: ArgSpec[], // arguments after \begin{name}
+}
+
+// Creates a signature from a compact notation (similar to xparse):
+//   s: an optional star (must come first)
+//   o: an optional [argument]
+//   m: a mandatory {argument}
+//   M: a mandatory {argument} in math mode
+//   v: a mandatory {argument} that is read verbatim
+//   V: a verbatim argument delimited by any character, as in \verb|...| (or by braces, as in \verb{...})
+//   p: TeX parameter text, up to the next {
+export function signature(name: string, spec: string): CommandSignature {
+  let starred = false;
+  let args: ArgSpec[] = [];
+  for (const c of spec) {
+    switch (c) {
+      case "s": {
+        starred = true;
+        break;
+      }
+      case "o": {
+        args.push({ kind: ArgKind.Optional, mode: ArgMode.Text });
+        break;
+      }
+      case "m": {
+        args.push({ kind: ArgKind.Mandatory, mode: ArgMode.Text });
+        break;
+      }
+      case "M": {
+        args.push({ kind: ArgKind.Mandatory, mode: ArgMode.Math });
+        break;
+      }
+      case "v": {
+        args.push({ kind: ArgKind.Mandatory, mode: ArgMode.Verbatim });
+        break;
+      }
+      case "V": {
+        args.push({ kind: ArgKind.Delimited, mode: ArgMode.Verbatim });
+        break;
+      }
+      case "p": {
+        args.push({ kind: ArgKind.Parameters, mode: ArgMode.Verbatim });
+        break;
+      }
+      default:
+        assert(false, `Unknown argument specifier ${c} in signature of \\${name}`);
+    }
+  }
+  return { name, starred, args };
+}
+
+// `spec` uses the same notation as for commands (without the star)
+export function environmentSignature(name: string, mode: ArgMode, spec: string = ""): EnvironmentSignature {
+  return { name, mode, args: signature(name, spec).args };
+}
+
+// standard LaTeX (and amsmath, hyperref, graphicx, etc.) commands
+const STANDARD_SIGNATURES: [string, string][] = [
+  // document structure
+  ["documentclass", "om"],
+  ["usepackage", "om"],
+  ["RequirePackage", "om"],
+  ["input", "m"],
+  ["include", "m"],
+  ["includeonly", "m"],
+  ["subfile", "m"],
+  ["import", "mm"],
+  ["subimport", "mm"],
+  ["title", "om"],
+  ["author", "om"],
+  ["date", "m"],
+  ["part", "som"],
+  ["chapter", "som"],
+  ["section", "som"],
+  ["subsection", "som"],
+  ["subsubsection", "som"],
+  ["paragraph", "som"],
+  ["subparagraph", "som"],
+  ["item", "o"],
+  ["footnote", "om"],
+  ["caption", "om"],
+  ["\\", "so"],
+  ["newline", ""],
+  ["hspace", "sm"],
+  ["vspace", "sm"],
+
+  // definitions
+  ["newcommand", "smoom"],
+  ["renewcommand", "smoom"],
+  ["providecommand", "smoom"],
+  ["newenvironment", "smoomm"],
+  ["renewenvironment", "smoomm"],
+  ["newtheorem", "smomo"],
+  ["DeclareMathOperator", "smm"],
+  ["def", "mpm"],
+  ["gdef", "mpm"],
+  ["edef", "mpm"],
+  ["xdef", "mpm"],
+
+  // references
+  ["label", "m"],
+  ["ref", "m"],
+  ["eqref", "m"],
+  ["pageref", "m"],
+  ["autoref", "m"],
+  ["nameref", "m"],
+  ["cref", "sm"],
+  ["Cref", "sm"],
+  ["cite", "om"],
+  ["citep", "oom"],
+  ["citet", "oom"],
+  ["nocite", "m"],
+  ["bibliography", "m"],
+  ["bibliographystyle", "m"],
+  ["addbibresource", "om"],
+  ["bibitem", "om"],
+  ["url", "v"],
+  ["verb", "sV"],
+  ["lstinline", "oV"],
+  ["mintinline", "omV"],
+  ["href", "vm"],
+  ["includegraphics", "som"],
+
+  // text formatting
+  ["textbf", "m"],
+  ["textit", "m"],
+  ["texttt", "m"],
+  ["textrm", "m"],
+  ["textsf", "m"],
+  ["textsc", "m"],
+  ["textup", "m"],
+  ["textsl", "m"],
+  ["emph", "m"],
+  ["underline", "m"],
+  ["mbox", "m"],
+  ["ensuremath", "M"],
+
+  // math
+  ["text", "m"],
+  ["frac", "mm"],
+  ["dfrac", "mm"],
+  ["tfrac", "mm"],
+  ["binom", "mm"],
+  ["sqrt", "om"],
+  ["mathbb", "m"],
+  ["mathcal", "m"],
+  ["mathrm", "m"],
+  ["mathbf", "m"],
+  ["mathit", "m"],
+  ["mathsf", "m"],
+  ["mathfrak", "m"],
+  ["operatorname", "sm"],
+  ["overline", "m"],
+  ["underbrace", "m"],
+  ["overbrace", "m"],
+  ["hat", "m"],
+  ["widehat", "m"],
+  ["bar", "m"],
+  ["vec", "m"],
+  ["tilde", "m"],
+  ["widetilde", "m"],
+  ["dot", "m"],
+  ["ddot", "m"],
+];
+
+// environments whose body is in math mode (amsmath environments also have a starred variant)
+const STANDARD_MATH_ENVIRONMENTS: [string, string][] = [
+  ["equation", ""],
+  ["align", ""],
+  ["alignat", "m"],
+  ["flalign", ""],
+  ["gather", ""],
+  ["multline", ""],
+  ["eqnarray", ""],
+];
+
+// environments whose body is raw text, up to the matching \end{name} (see lexVerbatimUntil)
+const STANDARD_VERBATIM_ENVIRONMENTS: [string, string][] = [
+  ["verbatim", ""],
+  ["verbatim*", ""],
+  ["Verbatim", "o"],
+  ["lstlisting", "o"],
+  ["minted", "om"],
+  ["comment", ""],
+];
+
+function standardEnvironments(): EnvironmentSignature[] {
+  let result: EnvironmentSignature[] = [environmentSignature("displaymath", ArgMode.Math)];
+  for (const [name, spec] of STANDARD_MATH_ENVIRONMENTS) {
+    result.push(environmentSignature(name, ArgMode.Math, spec));
+    result.push(environmentSignature(`${name}*`, ArgMode.Math, spec));
+  }
+  for (const [name, spec] of STANDARD_VERBATIM_ENVIRONMENTS) {
+    result.push(environmentSignature(name, ArgMode.Verbatim, spec));
+  }
+  return result;
+}
+
+// a set of known command (and environment) signatures, which can be extended with user-defined ones
+export class CommandRegistry {
+  signatures: Map<string, CommandSignature>;
+  environments: Map<string, EnvironmentSignature>;
+
+  constructor(signatures: CommandSignature[] = [], environments: EnvironmentSignature[] = []) {
+    this.signatures = new Map();
+    this.environments = new Map();
+    for (const sig of signatures) {
+      this.define(sig);
+    }
+    for (const sig of environments) {
+      this.defineEnvironment(sig);
+    }
+  }
+
+  // a new registry with the standard LaTeX commands and environments
+  static standard(): CommandRegistry {
+    return new CommandRegistry(STANDARD_SIGNATURES.map(([name, spec]) => signature(name, spec)), standardEnvironments());
+  }
+
+  // adds (or replaces) a signature
+  define(sig: CommandSignature) {
+    this.signatures.set(sig.name, sig);
+  }
+
+  get(name: string): Maybe<CommandSignature> {
+    return this.signatures.get(name) ?? null;
+  }
+
+  defineEnvironment(sig: EnvironmentSignature) {
+    this.environments.set(sig.name, sig);
+  }
+
+  getEnvironment(name: string): Maybe<EnvironmentSignature> {
+    return this.environments.get(name) ?? null;
+  }
+
+  clone(): CommandRegistry {
+    return new CommandRegistry([...this.signatures.values()], [...this.environments.values()]);
+  }
+}
+
+// shared default registry (clone it before adding commands)
+export const STANDARD_COMMANDS = CommandRegistry.standard();
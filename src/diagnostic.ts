@@ -0,0 +1,39 @@
+import { TextRange } from "./util"
+import { LineIndex } from "./lineindex"
+
+// mirrors the severities used by the Language Server Protocol
+export enum Severity {
+  Error,
+  Warning,
+  Information,
+  Hint,
+}
+
+// another location that is relevant to a diagnostic (such as the \begin of a mismatched \end)
+export interface RelatedInformation {
+  message: string,
+  range: TextRange,
+}
+
+// a problem found while processing a source text
+// (reported instead of thrown, so that processing can continue)
+export interface Diagnostic {
+  message: string,
+  range: TextRange,
+  severity: Severity,
+  related?: RelatedInformation[],
+}
+
+// formats a diagnostic as "line:col: severity: message" (with 1-indexed lines and columns),
+// followed by an indented "line:col: note: message" line for each related location
+export function formatDiagnostic(diagnostic: Diagnostic, lineIndex: LineIndex): string {
+  const position = (range: TextRange) => {
+    const { line, col } = lineIndex.lineCol(range.start);
+    return `${line + 1}:${col + 1}`;
+  };
+  let result = `${position(diagnostic.range)}: ${Severity[diagnostic.severity].toLowerCase()}: ${diagnostic.message}`;
+  for (const related of diagnostic.related ?? []) {
+    result += `\n  ${position(related.range)}: note: ${related.message}`;
+  }
+  return result;
+}
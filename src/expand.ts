@@ -0,0 +1,230 @@
+// Expansion of user-defined macros in math mode, before the math is parsed
+//
+// Macro invocations are replaced by their bodies (with #1..#9 replaced by the arguments), and the
+// result is rescanned for further invocations, like TeX does. Every expanded token keeps track of
+// where it came from: tokens from arguments keep their own position, while tokens from a macro
+// body are attributed to the whole invocation. Expanded tokens have their offset and range set to
+// that original position, so diagnostics from the math parser point at the source text.
+import { Token } from "./lexer"
+import { MathLexer, TokenType } from "./mathmode"
+import { MacroDefinition, macroBodyText } from "./macros"
+import { Diagnostic, Severity } from "./diagnostic"
+import { Maybe, TextRange } from "./util"
+
+export interface ExpansionOptions {
+  maxDepth: number, // maximum nesting of macro expansions
+  maxTokens: number, // expansion stops once the output gets this long
+}
+
+export const DEFAULT_EXPANSION_OPTIONS: ExpansionOptions = {
+  maxDepth: 32,
+  maxTokens: 100000,
+};
+
+export interface Origin {
+  range: TextRange, // the range of source text that produced a token
+  macros: string[], // the macros a token was expanded from, outermost first (empty for source tokens)
+}
+
+export interface Expansion {
+  tokens: Token<TokenType>[],
+  origins: Origin[], // one for each token
+  diagnostics: Diagnostic[],
+}
+
+interface Item {
+  token: Token<TokenType>,
+  origin: Origin,
+}
+
+function isTrivia(token: Token<TokenType>) {
+  return token.type === TokenType.Whitespace || token.type === TokenType.LineBreak;
+}
+
+// tokens of a piece of macro body (or default argument), attributed to an invocation
+function lexBody(text: string, origin: Origin): Item[] {
+  return MathLexer.tokenize(text).map((token) => ({
+    token: { ...token, offset: origin.range.start, range: origin.range },
+    origin: origin,
+  }));
+}
+
+class Expander {
+  macros: Map<string, MacroDefinition>;
+  options: ExpansionOptions;
+  diagnostics: Diagnostic[];
+
+  constructor(macros: Map<string, MacroDefinition>, options: ExpansionOptions) {
+    this.macros = macros;
+    this.options = options;
+    this.diagnostics = [];
+  }
+
+  error(message: string, range: TextRange) {
+    this.diagnostics.push({ message, range, severity: Severity.Error });
+  }
+
+  // index of the first non-trivia item at or after i
+  skipTrivia(items: Item[], i: number) {
+    while (i < items.length && isTrivia(items[i].token)) {
+      i++;
+    }
+    return i;
+  }
+
+  // the items of a balanced group starting at items[i] (without the delimiters), and the index after it
+  group(items: Item[], i: number, open: TokenType, close: TokenType): Maybe<[Item[], number]> {
+    let depth = 0;
+    for (let j = i; j < items.length; j++) {
+      const type = items[j].token.type;
+      if (type === open) {
+        depth++;
+      } else if (type === close) {
+        depth--;
+        if (depth === 0) {
+          return [items.slice(i + 1, j), j + 1];
+        }
+      }
+    }
+    return null;
+  }
+
+  // collects the arguments of an invocation at items[i], returning them and the index after the invocation
+  arguments(items: Item[], i: number, def: MacroDefinition): [Maybe<Item[]>[], number] {
+    let args: Maybe<Item[]>[] = [];
+    let next = i + 1;
+    for (let n = 0; n < def.arity; n++) {
+      const j = this.skipTrivia(items, next);
+      if (n === 0 && def.defaultArg !== null) {
+        // optional argument, null if the default should be used
+        const group = j < items.length && items[j].token.type === TokenType.LeftBracket
+          ? this.group(items, j, TokenType.LeftBracket, TokenType.RightBracket)
+          : null;
+        if (group === null) {
+          args.push(null);
+        } else {
+          args.push(group[0]);
+          next = group[1];
+        }
+        continue;
+      }
+
+      if (j >= items.length) {
+        this.error(`Missing argument ${n + 1} of \\${def.name}`, items[i].token.range);
+        args.push([]);
+        continue;
+      }
+      if (items[j].token.type === TokenType.LeftCurly) {
+        const group = this.group(items, j, TokenType.LeftCurly, TokenType.RightCurly);
+        if (group !== null) {
+          args.push(group[0]);
+          next = group[1];
+          continue;
+        }
+      }
+      // an undelimited argument is a single token
+      args.push([items[j]]);
+      next = j + 1;
+    }
+    return [args, next];
+  }
+
+  // the body of a macro with its parameters replaced by the arguments
+  instantiate(def: MacroDefinition, args: Maybe<Item[]>[], origin: Origin): Item[] {
+    if (def.operator) {
+      const star = def.starred ? "*" : "";
+      return lexBody(`\\operatorname${star}{${macroBodyText(def)}}`, origin);
+    }
+
+    let result: Item[] = [];
+    const body = macroBodyText(def);
+    let last = 0;
+    for (const match of body.matchAll(/#([1-9#])/g)) {
+      result.push(...lexBody(body.slice(last, match.index), origin));
+      last = match.index! + match[0].length;
+      if (match[1] === "#") {
+        result.push(...lexBody("#", origin));
+        continue;
+      }
+      const n = parseInt(match[1]) - 1;
+      if (n >= args.length) {
+        continue;
+      }
+      const arg = args[n];
+      result.push(...(arg === null ? lexBody(def.defaultArg!, origin) : arg));
+    }
+    result.push(...lexBody(body.slice(last), origin));
+    return result;
+  }
+
+  expand(items: Item[]): Item[] {
+    let i = 0;
+    while (i < items.length) {
+      const item = items[i];
+      const def = item.token.type === TokenType.Command ? this.macros.get(item.token.tokenData) : undefined;
+      if (def === undefined) {
+        i++;
+        continue;
+      }
+
+      const stack = item.origin.macros;
+      if (stack.includes(def.name)) {
+        this.error(`Recursive expansion of \\${def.name}`, item.token.range);
+        i++;
+        continue;
+      }
+      if (stack.length >= this.options.maxDepth) {
+        this.error(`Macro expansion of \\${def.name} is nested too deeply`, item.token.range);
+        i++;
+        continue;
+      }
+      if (items.length > this.options.maxTokens) {
+        this.error(`Macro expansion produced more than ${this.options.maxTokens} tokens`, item.token.range);
+        break;
+      }
+
+      const [args, next] = this.arguments(items, i, def);
+      const invoked = items.slice(i, next).map((item) => item.origin.range);
+      const range = {
+        start: Math.min(...invoked.map((r) => r.start)),
+        end: Math.max(...invoked.map((r) => r.end)),
+      };
+      const body = this.instantiate(def, args, { range: range, macros: [...stack, def.name] });
+      // rescan the expansion (without advancing), so that macros in the body get expanded too
+      items.splice(i, next - i, ...body);
+    }
+    return items;
+  }
+}
+
+// `macros` maps names (without the backslash) to definitions, see macroTable
+export function expandMacros(tokens: Token<TokenType>[], macros: Map<string, MacroDefinition>, options: ExpansionOptions = DEFAULT_EXPANSION_OPTIONS): Expansion {
+  const expander = new Expander(macros, options);
+  const items = expander.expand(tokens.map((token) => ({ token: token, origin: { range: token.range, macros: [] } })));
+  return {
+    tokens: items.map((item) => item.token),
+    origins: items.map((item) => item.origin),
+    diagnostics: expander.diagnostics,
+  };
+}
+
+// a math lexer whose tokens have user-defined macros expanded (to be used with MathParser)
+export class ExpandingMathLexer extends MathLexer {
+  macros: Map<string, MacroDefinition>;
+  options: ExpansionOptions;
+  origins: Origin[];
+
+  constructor(source: string, macros: Map<string, MacroDefinition>, options: ExpansionOptions = DEFAULT_EXPANSION_OPTIONS) {
+    super(source);
+    this.macros = macros;
+    this.options = options;
+    this.origins = [];
+  }
+
+  override tokenize(): Token<TokenType>[] {
+    const expansion = expandMacros(super.tokenize(), this.macros, this.options);
+    this.origins = expansion.origins;
+    this.diagnostics.push(...expansion.diagnostics);
+    return expansion.tokens;
+  }
+}
@@ -0,0 +1,241 @@
+// Extraction of the math regions of a LaTeX document, so that they can be parsed in math mode
+//
+// Each region is parsed on its own, so the offsets of its math tokens are relative to the start
+// of the math text. The OffsetMap of a region translates them back into the document.
+//
+// Parts of the math text that aren't math (labels, tags and \text) are blanked out before parsing,
+// and the math parser keeps the rows (separated by \\) and cells (separated by &) of environments
+// like align apart, with the & before a relation dropped as an alignment point.
+import { ParseTreeNode } from "./parser"
+import { SyntaxNode } from "./syntax"
+import { Diagnostic } from "./diagnostic"
+import { LineIndex, LineCol, ColumnEncoding } from "./lineindex"
+import { TokenType, SyntaxKind, Environment } from "./latex"
+import * as math from "./mathmode"
+import { MacroDefinition } from "./macros"
+import { ExpandingMathLexer } from "./expand"
+import { Maybe, TextRange } from "./util"
+
+export enum MathRegionKind {
+  Dollar, // $...$
+  DoubleDollar, // $$...$$
+  Paren, // \(...\)
+  Bracket, // \[...\]
+  Environment, // \begin{equation}...\end{equation}, etc.
+}
+
+// translates offsets in the math text of a region into the document
+export class OffsetMap {
+  start: number; // document offset of the start of the math text
+  lineIndex: LineIndex; // of the whole document
+
+  constructor(start: number, lineIndex: LineIndex) {
+    this.start = start;
+    this.lineIndex = lineIndex;
+  }
+
+  toDocument(offset: number): number {
+    return this.start + offset;
+  }
+
+  toDocumentRange(range: TextRange): TextRange {
+    return { start: this.toDocument(range.start), end: this.toDocument(range.end) };
+  }
+
+  // the (zero-indexed) document line and column of a math offset
+  lineCol(offset: number, encoding: ColumnEncoding = ColumnEncoding.Utf16): LineCol {
+    return this.lineIndex.lineCol(this.toDocument(offset), encoding);
+  }
+}
+
+export interface MathRegion {
+  kind: MathRegionKind,
+  display: boolean,
+  environment: Maybe<string>, // the environment name (such as "align*"), for environments
+  text: string, // the math text, without the delimiters
+  range: TextRange, // the whole region, including the delimiters
+  contentRange: TextRange, // the math text
+  tree: Maybe<ParseTreeNode<math.TokenType, math.SyntaxKind>>, // null if the math text could not be parsed
+  diagnostics: Diagnostic[], // problems in the math text, with document ranges
+  offsets: OffsetMap,
+}
+
+export interface ExtractOptions {
+  macros: Map<string, MacroDefinition>, // user-defined macros to expand before parsing (see macroTable)
+}
+
+type LatexSyntax = SyntaxNode<TokenType, SyntaxKind>;
+
+// the range between the opening and the closing delimiter (or the end of the node, if it is unclosed)
+function contentRange(node: LatexSyntax, open: Maybe<TextRange>, close: Maybe<TextRange>): TextRange {
+  const range = node.textRange();
+  return { start: open === null ? range.start : open.end, end: close === null ? range.end : close.start };
+}
+
+// the range of the delimiter token at `index` (from the end if negative), if it is there
+function delimiterRange(node: LatexSyntax, index: number): Maybe<TextRange> {
+  const child = node.childAt(index < 0 ? node.green.children.length + index : index);
+  if (child === null || child instanceof SyntaxNode) {
+    return null;
+  }
+  return child.textRange();
+}
+
+const DELIMITED_KINDS: Map<string, MathRegionKind> = new Map([
+  ["$", MathRegionKind.Dollar],
+  ["$$", MathRegionKind.DoubleDollar],
+  ["\\(", MathRegionKind.Paren],
+  ["\\[", MathRegionKind.Bracket],
+]);
+
+function nodeRange(node: LatexSyntax, kind: SyntaxKind): Maybe<TextRange> {
+  const child = node.children().find((child) => child.kind() === kind);
+  return child === undefined ? null : child.textRange();
+}
+
+// commands that are blanked out of math text, along with whether they take a (braced) argument
+const SKIPPED_COMMANDS: Map<string, boolean> = new Map([
+  ["label", true],
+  ["tag", true],
+  ["nonumber", false],
+  ["notag", false],
+  ["text", true],
+  ["textrm", true],
+  ["textit", true],
+  ["textbf", true],
+  ["mbox", true],
+  ["intertext", true],
+]);
+
+// the end of the braced group starting at `start` (or the end of the text, if it is unclosed)
+function groupEnd(text: string, start: number): number {
+  let depth = 0;
+  for (let i = start; i < text.length; i++) {
+    if (text[i] === "\\") {
+      i++;
+    } else if (text[i] === "{") {
+      depth++;
+    } else if (text[i] === "}" && --depth === 0) {
+      return i + 1;
+    }
+  }
+  return text.length;
+}
+
+// math text with the parts that aren't math replaced by spaces (so that offsets are unchanged),
+// which are the commands in SKIPPED_COMMANDS and the options of \\ (such as \\*[2pt])
+export function blankNonMath(text: string): string {
+  let result = "";
+  let kept = 0; // the end of the text copied to the result so far
+  const command = /\\([a-zA-Z]+|.)/g;
+  for (let match = command.exec(text); match !== null; match = command.exec(text)) {
+    const name = match[1];
+    let end = command.lastIndex;
+    let start = match.index;
+    if (name === "\\") {
+      // (the \\ itself is kept, since it separates rows)
+      start = end;
+      const options = /\*?\s*(\[[^\]]*\])?/y;
+      options.lastIndex = end;
+      end += options.exec(text)![0].length;
+    } else if (SKIPPED_COMMANDS.has(name)) {
+      if (name === "tag" && text[end] === "*") {
+        end++;
+      }
+      const space = /\s*/y;
+      space.lastIndex = end;
+      const argument = end + space.exec(text)![0].length;
+      if (SKIPPED_COMMANDS.get(name) && text[argument] === "{") {
+        end = groupEnd(text, argument);
+      }
+    } else {
+      continue;
+    }
+    result += text.slice(kept, start) + " ".repeat(end - start);
+    kept = end;
+    command.lastIndex = end;
+  }
+  return result + text.slice(kept);
+}
+
+// parses math text, returning the tree and any problems (with ranges relative to the text)
+// (`functions` are the symbols known to be functions, see MathParser)
+export function parseMath(text: string, macros: Map<string, MacroDefinition> = new Map(), functions: Set<string> = new Set()): [Maybe<ParseTreeNode<math.TokenType, math.SyntaxKind>>, Diagnostic[]] {
+  const lexer = macros.size > 0 ? new ExpandingMathLexer(text, macros) : new math.MathLexer(text);
+  const parser = new math.MathParser(lexer, functions);
+  if (!parser.hasNext()) {
+    return [null, parser.diagnostics];
+  }
+  const tree = parser.parse();
+  return [tree, parser.diagnostics];
+}
+
+class Extractor {
+  text: string;
+  lineIndex: LineIndex;
+  options: ExtractOptions;
+  regions: MathRegion[];
+
+  constructor(text: string, options: ExtractOptions) {
+    this.text = text;
+    this.lineIndex = new LineIndex(text);
+    this.options = options;
+    this.regions = [];
+  }
+
+  region(kind: MathRegionKind, display: boolean, environment: Maybe<string>, range: TextRange, content: TextRange) {
+    const text = this.text.slice(content.start, content.end);
+    const offsets = new OffsetMap(content.start, this.lineIndex);
+    const [tree, diagnostics] = parseMath(blankNonMath(text), this.options.macros);
+    this.regions.push({
+      kind: kind,
+      display: display,
+      environment: environment,
+      text: text,
+      range: range,
+      contentRange: content,
+      tree: tree,
+      diagnostics: diagnostics.map((d) => ({ ...d, range: offsets.toDocumentRange(d.range) })),
+      offsets: offsets,
+    });
+  }
+
+  // the math region that a node forms on its own, returning false if it isn't one
+  node(node: LatexSyntax): boolean {
+    switch (node.kind()) {
+      case SyntaxKind.Formula:
+      case SyntaxKind.Equation: {
+        const open = delimiterRange(node, 0)!;
+        const kind = DELIMITED_KINDS.get(this.text.slice(open.start, open.end))!;
+        const close = delimiterRange(node, -1);
+        const display = node.kind() === SyntaxKind.Equation;
+        this.region(kind, display, null, node.textRange(), contentRange(node, open, close));
+        return true;
+      }
+      case SyntaxKind.MathEnvironment: {
+        const content = contentRange(node, nodeRange(node, SyntaxKind.Begin), nodeRange(node, SyntaxKind.End));
+        this.region(MathRegionKind.Environment, true, new Environment(node.green).begin()?.name() ?? null, node.textRange(), content);
+        return true;
+      }
+      default:
+        return false;
+    }
+  }
+
+  visit(node: LatexSyntax) {
+    for (const child of node.children()) {
+      // math inside math (such as in \text{...}) belongs to the outer region
+      if (!this.node(child)) {
+        this.visit(child);
+      }
+    }
+  }
+}
+
+// every math region of a document, in document order
+export function extractMath(root: ParseTreeNode<TokenType, SyntaxKind>, options: ExtractOptions = { macros: new Map() }): MathRegion[] {
+  const syntax = SyntaxNode.root(root);
+  const extractor = new Extractor(syntax.text(), options);
+  extractor.visit(syntax);
+  return extractor.regions;
+}
@@ -0,0 +1,269 @@
+// Incremental reparsing of LaTeX after a text edit
+//
+// Instead of relexing and reparsing the whole document, we find the smallest group-like node
+// (a curly group, environment or math formula) that strictly contains the edit, and relex and
+// reparse only the text of that node. Everything outside of the node is reused as is, and only
+// its ancestors are copied. Tokens store absolute offsets, so the nodes after the edit are shifted
+// by their new parents (see ParseTreeNode.shifts) instead of being copied with new offsets.
+//
+// Whenever a node cannot be reparsed in isolation (its new text does not parse to exactly one
+// node of the same kind without errors), we try the next enclosing node, and eventually fall
+// back to a full reparse. This keeps the result identical to parsing the new text from scratch.
+// Nodes containing commands that change the catcodes (such as \makeatletter) are never reparsed on
+// their own, since the tokens after them depend on those commands.
+import { Token } from "./lexer"
+import { ParseTreeNode, ParseResult, TokenOrNode, isToken, childShift } from "./parser"
+import { Diagnostic } from "./diagnostic"
+import { SyntaxNode, SyntaxToken } from "./syntax"
+import { LatexLexer, LatexParser, TokenType, SyntaxKind, Environment, Catcodes, DEFAULT_CATCODES, applyCatcodes, isCatcodeCommand, mayChangeCatcodes, parseLatex } from "./latex"
+import { CommandRegistry, ArgMode, STANDARD_COMMANDS } from "./commands"
+import { Maybe, TextRange } from "./util"
+
+// replaces the text in `range` (of the old text) with `text`
+export interface TextEdit {
+  range: TextRange,
+  text: string,
+}
+
+export function applyEdit(text: string, edit: TextEdit): string {
+  return text.slice(0, edit.range.start) + edit.text + text.slice(edit.range.end);
+}
+
+type LatexNode = ParseTreeNode<TokenType, SyntaxKind>;
+type LatexElement = TokenOrNode<TokenType, SyntaxKind>;
+
+// node kinds that can be reparsed on their own, along with the parser rule for each
+// (the old node is passed along, since the parser rule may depend on its syntax data)
+type Reparser = (parser: LatexParser, node: LatexNode) => void;
+const REPARSERS: Map<SyntaxKind, Reparser> = new Map([
+  [SyntaxKind.CurlyGroup, (parser: LatexParser, node: LatexNode) => {
+    if (node.syntaxData === ArgMode.Verbatim) {
+      parser.verbatim_group();
+    } else {
+      parser.curly_group(node.syntaxData);
+    }
+  }],
+  [SyntaxKind.Environment, (parser: LatexParser) => parser.environment()],
+  [SyntaxKind.MathEnvironment, (parser: LatexParser) => parser.environment()],
+  [SyntaxKind.Formula, (parser: LatexParser) => parser.math()],
+  [SyntaxKind.Equation, (parser: LatexParser) => parser.math()],
+]);
+
+function shiftRange(range: TextRange, delta: number): TextRange {
+  return { start: range.start + delta, end: range.end + delta };
+}
+
+// where a range lies relative to a reparsed node
+enum Position {
+  Before,
+  Inside,
+  After,
+  Overlapping,
+}
+
+function position(range: TextRange, node: TextRange): Position {
+  if (range.end <= node.start) {
+    return Position.Before;
+  }
+  if (range.start >= node.end) {
+    return Position.After;
+  }
+  if (range.start >= node.start && range.end <= node.end) {
+    return Position.Inside;
+  }
+  return Position.Overlapping;
+}
+
+function diagnosticRanges(diagnostic: Diagnostic): TextRange[] {
+  return [diagnostic.range, ...(diagnostic.related ?? []).map((related) => related.range)];
+}
+
+// shifts the ranges of a diagnostic that come after a reparsed node
+function shiftDiagnostic(diagnostic: Diagnostic, node: TextRange, delta: number): Diagnostic {
+  const shift = (range: TextRange) => position(range, node) === Position.After ? shiftRange(range, delta) : range;
+  let result: Diagnostic = { ...diagnostic, range: shift(diagnostic.range) };
+  if (diagnostic.related !== undefined) {
+    result.related = diagnostic.related.map((related) => ({ ...related, range: shift(related.range) }));
+  }
+  return result;
+}
+
+// the first (or last) token below a node
+function edgeToken(node: SyntaxNode<TokenType, SyntaxKind>, last: boolean): Maybe<SyntaxToken<TokenType, SyntaxKind>> {
+  const count = node.green.children.length;
+  for (let i = 0; i < count; i++) {
+    const child = node.childAt(last ? count - 1 - i : i)!;
+    const token = child instanceof SyntaxNode ? edgeToken(child, last) : child;
+    if (token !== null) {
+      return token;
+    }
+  }
+  return null;
+}
+
+// the range between the first and last token of a node, which an edit must fall within
+// (text inserted right after the first token could become part of it, as in \begin + a)
+function innerRange(node: SyntaxNode<TokenType, SyntaxKind>): Maybe<TextRange> {
+  const first = edgeToken(node, false);
+  const last = edgeToken(node, true);
+  if (first === null || last === null || first.green === last.green) {
+    return null;
+  }
+  return { start: first.textRange().end, end: last.textRange().start };
+}
+
+// the catcodes at an offset, given the text and tree before the edit and the catcodes at its start
+function catcodesAt(text: string, root: LatexNode, offset: number, catcodes: Catcodes): Catcodes {
+  if (!mayChangeCatcodes(text, offset)) {
+    return catcodes;
+  }
+  const visit = (element: LatexElement, shift: number): boolean => {
+    if (isToken(element)) {
+      if (element.range.start + shift >= offset) {
+        return false;
+      }
+      catcodes = applyCatcodes(catcodes, element);
+      return true;
+    }
+    return element.children.every((child, i) => visit(child, shift + childShift(element, i)));
+  };
+  visit(root, 0);
+  return catcodes;
+}
+
+// the child of a node that strictly contains the edit, if there is one
+function childContaining(node: SyntaxNode<TokenType, SyntaxKind>, edit: TextEdit): Maybe<SyntaxNode<TokenType, SyntaxKind>> {
+  for (let i = 0; i < node.green.children.length; i++) {
+    if (isToken(node.green.children[i])) {
+      continue;
+    }
+    const child = node.childAt(i) as SyntaxNode<TokenType, SyntaxKind>;
+    const range = child.textRange();
+    if (range.start >= edit.range.start) {
+      break;
+    }
+    if (edit.range.end < range.end) {
+      return child;
+    }
+  }
+  return null;
+}
+
+// reparsable nodes containing the edit, from innermost to outermost
+function candidates(root: LatexNode, edit: TextEdit): SyntaxNode<TokenType, SyntaxKind>[] {
+  let result: SyntaxNode<TokenType, SyntaxKind>[] = [];
+  let node = SyntaxNode.root(root);
+  while (true) {
+    const child = childContaining(node, edit);
+    if (child === null) {
+      break;
+    }
+    // unclosed nodes (with a missing closing delimiter) may grow after the edit, so they can't be reparsed on their own
+    const closed = !child.green.children.some((c) => !isToken(c) && c.kind === SyntaxKind.Missing);
+    const inner = innerRange(child);
+    if (REPARSERS.has(child.kind()) && closed && inner !== null && inner.start < edit.range.start && edit.range.end <= inner.end) {
+      result.push(child);
+    }
+    node = child;
+  }
+  return result.reverse();
+}
+
+// parses the new text of `node` on its own (with the catcodes at its start), returning null if that
+// does not give exactly one node of the same kind
+function reparseNode(node: SyntaxNode<TokenType, SyntaxKind>, newText: string, delta: number, registry: CommandRegistry, catcodes: Catcodes): Maybe<LatexNode> {
+  const range = node.textRange();
+  const end = range.end + delta;
+  const tokens = node.descendantsWithTokens().filter((e) => !(e instanceof SyntaxNode)).map((e) => e.green as Token<TokenType>);
+  if (tokens.some(isCatcodeCommand)) {
+    return null;
+  }
+
+  const lexer = new LatexLexer(newText, catcodes);
+  lexer.reset(range.start, end);
+  const parser = new LatexParser(lexer, registry);
+  // the environments the node is in, which may close early
+  parser.environments = node.ancestors()
+    .filter((ancestor) => ancestor !== node && [SyntaxKind.Environment, SyntaxKind.MathEnvironment].includes(ancestor.kind()))
+    .map((ancestor) => new Environment(ancestor.green).begin()?.name() ?? "")
+    .reverse();
+  // the groups the node is in, which a } may close
+  parser.groups = node.ancestors().filter((ancestor) => ancestor !== node && ancestor.kind() === SyntaxKind.CurlyGroup).length;
+  if (parser.tokens.length === 0 || parser.tokens[parser.tokens.length - 1].range.end !== end) {
+    // token boundaries changed at the end of the node
+    return null;
+  }
+
+  if (parser.tokens.some(isCatcodeCommand)) {
+    return null;
+  }
+
+  REPARSERS.get(node.kind())!(parser, node.green);
+  // (verbatim text is lexed while parsing, and may run past the end of the node)
+  if (parser.hasNext() || parser.diagnostics.length > 0 || parser.tokens[parser.tokens.length - 1].range.end !== end) {
+    return null;
+  }
+  const result = parser.builder.finish();
+  if (isToken(result) || result.kind !== node.kind()) {
+    return null;
+  }
+  return result;
+}
+
+// replaces `node` in the tree, copying its ancestors (and shifting everything after it)
+function replaceNode(node: SyntaxNode<TokenType, SyntaxKind>, replacement: LatexElement, delta: number): LatexNode {
+  let current: SyntaxNode<TokenType, SyntaxKind> = node;
+  // (the replacement has absolute offsets, so it undoes the shift of its ancestors)
+  let shift = -(node.parent()?.shift ?? 0);
+  while (true) {
+    const parent = current.parent();
+    if (parent === null) {
+      return replacement as LatexNode;
+    }
+    const index = current.index;
+    const shifts = parent.green.children.map((_, i) => i < index ? childShift(parent.green, i) : i === index ? shift : childShift(parent.green, i) + delta);
+    let copy: LatexNode = {
+      kind: parent.green.kind,
+      syntaxData: parent.green.syntaxData,
+      children: parent.green.children.map((child, i) => i === index ? replacement : child),
+    };
+    if (shifts.some((s) => s !== 0)) {
+      copy.shifts = shifts;
+    }
+    replacement = copy;
+    const grandparent = parent.parent();
+    shift = grandparent === null ? 0 : childShift(grandparent.green, parent.index);
+    current = parent;
+  }
+}
+
+// `text` is the text before the edit, and `previous` is the result of parsing it (with the same registry and catcodes)
+export function reparseLatex(text: string, previous: ParseResult<TokenType, SyntaxKind>, edit: TextEdit, registry: CommandRegistry = STANDARD_COMMANDS, catcodes: Catcodes = DEFAULT_CATCODES): ParseResult<TokenType, SyntaxKind> {
+  const newText = applyEdit(text, edit);
+  const delta = edit.text.length - (edit.range.end - edit.range.start);
+
+  for (const node of candidates(previous.root, edit)) {
+    const range = node.textRange();
+    // diagnostics inside the node are replaced (and there are none in the reparsed node),
+    // so diagnostics that are only partly inside it can't be kept
+    const positions = previous.diagnostics.map((d) => diagnosticRanges(d).map((r) => position(r, range)));
+    if (positions.some((p) => p.includes(Position.Overlapping) || (p.includes(Position.Inside) && !p.every((q) => q === Position.Inside)))) {
+      continue;
+    }
+
+    const replacement = reparseNode(node, newText, delta, registry, catcodesAt(text, previous.root, range.start, catcodes));
+    if (replacement === null) {
+      continue;
+    }
+
+    let diagnostics: Diagnostic[] = [];
+    previous.diagnostics.forEach((diagnostic, i) => {
+      if (!positions[i].includes(Position.Inside)) {
+        diagnostics.push(shiftDiagnostic(diagnostic, range, delta));
+      }
+    });
+    return { root: replaceNode(node, replacement, delta), diagnostics: diagnostics };
+  }
+
+  return parseLatex(newText, registry, catcodes);
+}
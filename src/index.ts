@@ -1,20 +1,42 @@
 import { intoNode } from "./parser"
-import { LatexLexer, LatexParser, Environment } from "./latex"
+import { SyntaxNode, SyntaxToken } from "./syntax"
+import { LatexLexer, LatexParser, parseLatex, LATEX_QUERY } from "./latex"
+import { select } from "./query"
+import { extractMath, MathRegionKind } from "./extract"
 import { BinOp, InfixOp, MathLexer, MathParser } from "./mathmode"
 
 function latex() {
-  const text = "\\begin{document}\nHello, world!\n\\[1+1 = 2\\]\n\\end{document}"
+  const text = "\\begin{document}\nHello, $x + y$ world!\n\\[1+1 = 2\\]\n\\begin{align*}\n  a \\cup b\n\\end{align*}\n\\end{document}"
   // const tokens = LatexLexer.tokenize(text);
   // console.log(tokens)
 
   const lexer = new LatexLexer(text);
   const parser = new LatexParser(lexer);
   const root = parser.parse()
-  const env = new Environment(intoNode(root.children[0]))
-  console.log(env.bodyText());
+  for (const region of extractMath(root)) {
+    console.log(MathRegionKind[region.kind], region.environment, JSON.stringify(region.text));
+    if (region.tree !== null) {
+      // positions of math tokens in the document
+      for (const token of SyntaxNode.root(region.tree).descendantsWithTokens()) {
+        if (token instanceof SyntaxToken) {
+          const { line, col } = region.offsets.lineCol(token.green.offset);
+          console.log(`  ${token.text()} at ${line + 1}:${col + 1}`);
+        }
+      }
+    }
+  }
 }
 // latex();
 
+function query() {
+  const text = "\\begin{proof}\nBy \\ref{lemma}, $x \\in A$.\\label{proof}\n\\end{proof}"
+  const root = parseLatex(text).root;
+  for (const node of select(root, "Environment[name=proof] Formula, Command[name=label]", LATEX_QUERY)) {
+    console.log(node.textRange(), node.text());
+  }
+}
+// query();
+
 function math() {
   const text = "a \\cup b \\cap c";
   const lexer = new MathLexer(text);
@@ -1,7 +1,11 @@
 // Inspired by Texlab parser/lexer
-import { Maybe, alphabetic, Enum, assert } from "./util"
-import { Lexer, LexError, Token } from "./lexer"
-import { Parser, ParseTreeNode, ParseError, isNode, ASTNode, findFirstToken, findFirstNode, concatParseTrees } from "./parser"
+import { Maybe, alphabetic, Enum, assert, TextRange } from "./util"
+import { Lexer, Token, lexUnknown } from "./lexer"
+import { Severity, RelatedInformation } from "./diagnostic"
+import { SyntaxNode } from "./syntax"
+import { QueryLanguage } from "./query"
+import { CommandRegistry, CommandSignature, EnvironmentSignature, ArgKind, ArgMode, ArgSpec, STANDARD_COMMANDS } from "./commands"
+import { Parser, ParseTreeNode, ParseResult, TokenOrNode, isNode, isToken, intoNode, intoToken, astNode, findFirstNode, concatParseTree, concatParseTrees } from "./parser"
 
 // Lexing
 export enum TokenType {
@@ -20,6 +24,8 @@ export enum TokenType {
   Word,
   Dollar,
   Command,
+  Verbatim, // raw text, after \verb or in a verbatim environment (see LatexParser.relex)
+  Unknown, // any character that could not be lexed otherwise
 }
 
 function isText(type: TokenType) {
@@ -30,49 +36,53 @@ function isCommand(token: Token<TokenType>, name: string) {
   return token.type === TokenType.Command && token.tokenData === name;
 }
 
+// a command whose name is made of letters (not one other character, as in \{)
+function isControlWord(token: Token<TokenType>) {
+  return token.tokenData.length > 1 || alphabetic(token.tokenData);
+}
+
 function isTrivia(type: TokenType) {
   return [TokenType.LineBreak, TokenType.LineComment, TokenType.Whitespace].includes(type);
 }
 
-export function lexCommand<TokenType extends Enum>(lexer: Lexer<TokenType>): Maybe<Token<TokenType>> {
+// the math delimiter a token is, if any ($, $$, \(, \), \[ or \])
+function mathDelimiter(token: Token<TokenType>): Maybe<string> {
+  if (token.type === TokenType.Dollar) {
+    return token.source;
+  }
+  if (token.type === TokenType.Command && ["(", ")", "[", "]"].includes(token.tokenData)) {
+    return token.source;
+  }
+  return null;
+}
+
+const CLOSING_DELIMITERS: Map<string, string> = new Map([
+  ["$", "$"],
+  ["$$", "$$"],
+  ["\\(", "\\)"],
+  ["\\[", "\\]"],
+]);
+
+const COMMAND_NAME = /[a-zA-Z]+/y;
+
+// `name` matches a sequence of letters (which depend on the catcodes, see LatexLexer)
+export function lexCommand<TokenType extends Enum>(lexer: Lexer<TokenType>, type: TokenType, name: RegExp = COMMAND_NAME): Maybe<Token<TokenType>> {
   if (lexer.source[lexer.index] === "\\") {
     if (lexer.source.length == lexer.index + 1) {
-      throw new LexError(`Unexpected EOF at ${lexer.offset}`)
+      // a trailing backslash is left for lexUnknown
+      return null;
     }
     let c = lexer.source[lexer.index + 1];
 
-    if (!alphabetic(c)) {
-      // one non-alphabetic character
-      let token = {
-        type: TokenType.Command,
-        tokenData: c,
-        source: lexer.source.slice(lexer.index, lexer.index + 2),
-        offset: lexer.offset,
-      } as Token<TokenType>;
-
-      lexer.offset += 2;
-      lexer.index += 2;
-
-      return token;
+    name.lastIndex = lexer.index + 1;
+    let match = name.exec(lexer.source);
+    if (match === null) {
+      // one non-letter character
+      return lexer.emit(type, 2, c);
     } else {
-      // sequence of a-zA-Z characters
-      let match = /^[a-zA-Z]+/.exec(lexer.source.slice(lexer.index + 1));
-      if (match === null) {
-        throw new LexError(`Unexpected \\ at ${lexer.offset}`)
-      }
+      // sequence of letters
       let captured = match[0];
-
-      let token = {
-        type: TokenType.Command,
-        tokenData: captured,
-        source: lexer.source.slice(lexer.index, lexer.index + 1 + captured.length),
-        offset: lexer.offset,
-      } as Token<TokenType>;
-
-      lexer.index += 1 + captured.length;
-      lexer.offset += 1 + captured.length;
-
-      return token;
+      return lexer.emit(type, 1 + captured.length, captured);
     }
   }
   return null;
@@ -93,16 +103,128 @@ let lexFns = {
   [TokenType.Eq]: /^=/,
   [TokenType.Word]: /^[^\s\\%\{\},\$\[\]\(\)=\|]+/,
   [TokenType.Dollar]: /^\$\$?/,
-  [TokenType.Command]: lexCommand,
+  [TokenType.Command]: (lexer: Lexer<TokenType>, type: TokenType) => lexCommand(lexer, type, lexer instanceof LatexLexer ? lexer.commandName : COMMAND_NAME),
+  [TokenType.Verbatim]: () => null, // only lexed in a verbatim mode (see LatexParser.relex)
+  [TokenType.Unknown]: lexUnknown,
+}
+
+// Verbatim modes
+// The parser knows where verbatim text starts (after the arguments of \verb or \begin{verbatim}),
+// so it switches the lexer to one of these modes there, and lexes whatever follows as usual.
+// Which commands and environments are verbatim is given by the registry (arguments with
+// ArgKind.Delimited, and environments with ArgMode.Verbatim).
+
+// raw text up to (not including) `end`, or the rest of the source if `end` never appears
+export function lexVerbatimUntil(lexer: Lexer<TokenType>, type: TokenType, end: string): Maybe<Token<TokenType>> {
+  let stop = lexer.source.indexOf(end, lexer.index);
+  if (stop === -1) {
+    stop = lexer.source.length;
+  }
+  if (stop === lexer.index) {
+    return null;
+  }
+  return lexer.emit(type, stop - lexer.index, lexer.source.slice(lexer.index, stop));
+}
+
+// an argument between two copies of any character other than a letter, space or * (as in \verb|...|),
+// or between braces; like in TeX, it can't span several lines
+// (the token data is the text without the delimiters)
+export function lexDelimited(lexer: Lexer<TokenType>, type: TokenType): Maybe<Token<TokenType>> {
+  const open = lexer.source[lexer.index];
+  if (open === undefined || /[\sa-zA-Z*]/.test(open)) {
+    return null;
+  }
+  const close = open === "{" ? "}" : open;
+  let end = lexer.index + 1;
+  while (end < lexer.source.length && !["\n", "\r", close].includes(lexer.source[end])) {
+    end++;
+  }
+  const closed = lexer.source[end] === close;
+  return lexer.emit(type, end + (closed ? 1 : 0) - lexer.index, lexer.source.slice(lexer.index + 1, end));
+}
+
+// Catcodes
+// TeX decides which characters can be part of a command name from their category codes, which
+// documents change with commands like \makeatletter. Only the common changes are tracked.
+
+export interface Catcodes {
+  atLetter: boolean, // @ is a letter (after \makeatletter, and in .sty and .cls files)
+  explSyntax: boolean, // _ and : are letters (after \ExplSyntaxOn)
+}
+
+export const DEFAULT_CATCODES: Catcodes = { atLetter: false, explSyntax: false };
+
+// commands that change the catcodes, and what they change
+const CATCODE_COMMANDS: Map<string, Partial<Catcodes>> = new Map([
+  ["makeatletter", { atLetter: true }],
+  ["makeatother", { atLetter: false }],
+  ["ExplSyntaxOn", { explSyntax: true }],
+  ["ExplSyntaxOff", { explSyntax: false }],
+]);
+
+// the catcodes a file starts with (packages and classes are read with @ as a letter)
+export function catcodesFor(path: string): Catcodes {
+  return /\.(sty|cls)$/.test(path) ? { ...DEFAULT_CATCODES, atLetter: true } : DEFAULT_CATCODES;
+}
+
+export function isCatcodeCommand(token: Token<TokenType>): boolean {
+  return token.type === TokenType.Command && CATCODE_COMMANDS.has(token.tokenData);
+}
+
+// whether the text before `end` could contain a command that changes the catcodes (which is much
+// quicker to check than lexing it)
+export function mayChangeCatcodes(text: string, end: number): boolean {
+  return [...CATCODE_COMMANDS.keys()].some((name) => {
+    const index = text.indexOf(`\\${name}`);
+    return index !== -1 && index < end;
+  });
+}
+
+export function sameCatcodes(a: Catcodes, b: Catcodes): boolean {
+  return a.atLetter === b.atLetter && a.explSyntax === b.explSyntax;
+}
+
+// the catcodes after a token
+export function applyCatcodes(catcodes: Catcodes, token: Token<TokenType>): Catcodes {
+  const change = token.type === TokenType.Command ? CATCODE_COMMANDS.get(token.tokenData) : undefined;
+  return change === undefined ? catcodes : { ...catcodes, ...change };
 }
+
+function commandNameRegex(catcodes: Catcodes): RegExp {
+  if (!catcodes.atLetter && !catcodes.explSyntax) {
+    return COMMAND_NAME;
+  }
+  return new RegExp(`[a-zA-Z${catcodes.atLetter ? "@" : ""}${catcodes.explSyntax ? "_:" : ""}]+`, "y");
+}
+
 export class LatexLexer extends Lexer<TokenType> {
-  constructor(source: string) {
+  initialCatcodes: Catcodes;
+  catcodes: Catcodes; // changed by commands like \makeatletter as they are lexed
+  commandName: RegExp; // the letters of a command name, with the current catcodes
+
+  constructor(source: string, catcodes: Catcodes = DEFAULT_CATCODES) {
     super(source, lexFns)
+    this.initialCatcodes = catcodes;
+    this.catcodes = catcodes;
+    this.commandName = commandNameRegex(catcodes);
+  }
+
+  setCatcodes(catcodes: Catcodes) {
+    this.catcodes = catcodes;
+    this.commandName = commandNameRegex(catcodes);
   }
 
-  static tokenize(text: string): Token<TokenType>[] {
+  override nextToken(): Maybe<Token<TokenType>> {
+    const token = super.nextToken();
+    if (token !== null && isCatcodeCommand(token)) {
+      this.setCatcodes(applyCatcodes(this.catcodes, token));
+    }
+    return token;
+  }
+
+  static tokenize(text: string, catcodes: Catcodes = DEFAULT_CATCODES): Token<TokenType>[] {
     let tokens: Token<TokenType>[] = [];
-    const lexer = new LatexLexer(text);
+    const lexer = new LatexLexer(text, catcodes);
 
     while (true) {
       let token = lexer.nextToken();
@@ -122,30 +244,57 @@ export enum SyntaxKind {
   Root,
   Begin,
   End,
+  NameGroup, // the {name} of an environment
   Environment,
-  Formula,
-  Equation,
+  MathEnvironment, // an environment whose body is in math mode (such as align)
+  Formula, // inline math: $...$ or \(...\)
+  Equation, // display math: $$...$$ or \[...\]
   CurlyGroup,
   BracketGroup,
   MixedGroup,
   Command,
   Text,
+  Verbatim, // the body of a verbatim environment, or a delimited argument (as in \verb|...|)
+  Error, // unexpected tokens, skipped over during error recovery
+  Missing, // an empty placeholder for something that was expected but not found
 }
 
 // this is pretty much just a basic recursive descent parser
 export class LatexParser extends Parser<TokenType, SyntaxKind> {
-  constructor(lexer: LatexLexer) {
-    super(lexer);
+  declare lexer: LatexLexer;
+  registry: CommandRegistry;
+  environments: string[]; // the names of the open environments, innermost last
+  groups: number; // the number of open curly groups (a } only closes an environment early inside one)
+  catcodes: Catcodes; // after the tokens before catcodeIndex (for relexing)
+  catcodeIndex: number;
+
+  constructor(lexer: LatexLexer, registry: CommandRegistry = STANDARD_COMMANDS) {
+    super(lexer, TokenType, SyntaxKind.Error, SyntaxKind.Missing);
+    this.registry = registry;
+    this.environments = [];
+    this.groups = 0;
+    this.catcodes = lexer.initialCatcodes;
+    this.catcodeIndex = 0;
   }
 
-  expectCommand(name: string) {
-    let token = this.peek()!;
-    const [row, col] = this.lexer.getSourceLocation(token.offset);
-    if (!isCommand(token, name)) {
-      throw new ParseError(`Expected \\${name} at ${row}:${col}, found ${token.source} instead`);
+  // the catcodes at the current token
+  currentCatcodes(): Catcodes {
+    for (; this.catcodeIndex < this.idx; this.catcodeIndex++) {
+      this.catcodes = applyCatcodes(this.catcodes, this.tokens[this.catcodeIndex]);
+    }
+    return this.catcodes;
+  }
+
+  expectCommand(name: string): boolean {
+    let token = this.peek();
+    if (token === null || !isCommand(token, name)) {
+      const found = token === null ? "end of input" : token.source;
+      this.missing(`Expected \\${name}, found ${found} instead`, TokenType.Command);
+      return false;
     }
     this.builder.push(token);
     this.idx++;
+    return true;
   }
 
   trivia() {
@@ -154,22 +303,46 @@ export class LatexParser extends Parser<TokenType, SyntaxKind> {
     }
   }
 
-  curly_group() {
-    this.builder.start_node(SyntaxKind.CurlyGroup)
+  // groups that are command arguments have their ArgMode as syntax data
+  curly_group(mode: Maybe<ArgMode> = null) {
+    this.builder.start_node(SyntaxKind.CurlyGroup, mode)
     this.expect(TokenType.LeftCurly);
+    this.groups++;
     while (this.hasNext()) {
       let token = this.peek()!;
-      if (token.type == TokenType.RightCurly) {
+      if (token.type == TokenType.RightCurly || this.closesEnvironment()) {
         break;
       }
       this.content();
     }
+    this.groups--;
     this.expect(TokenType.RightCurly);
     this.builder.end_node()
   }
 
-  bracket_group() {
-    this.builder.start_node(SyntaxKind.BracketGroup)
+  // a curly group whose content is kept as raw tokens (only braces are matched)
+  verbatim_group() {
+    this.builder.start_node(SyntaxKind.CurlyGroup, ArgMode.Verbatim)
+    this.expect(TokenType.LeftCurly);
+    let depth = 0;
+    while (this.hasNext()) {
+      let token = this.peek()!;
+      if (token.type == TokenType.RightCurly) {
+        if (depth === 0) {
+          break;
+        }
+        depth--;
+      } else if (token.type == TokenType.LeftCurly) {
+        depth++;
+      }
+      this.consume();
+    }
+    this.expect(TokenType.RightCurly);
+    this.builder.end_node()
+  }
+
+  bracket_group(mode: Maybe<ArgMode> = null) {
+    this.builder.start_node(SyntaxKind.BracketGroup, mode)
     this.expect(TokenType.LeftBracket);
     while (this.hasNext()) {
       let token = this.peek()!;
@@ -196,75 +369,260 @@ export class LatexParser extends Parser<TokenType, SyntaxKind> {
     this.builder.end_node()
   }
 
-  equation() {
-    this.builder.start_node(SyntaxKind.Equation)
+  // inline math (delimited by $ or \() or display math (delimited by $$ or \[),
+  // which must be closed by the matching delimiter
+  math() {
+    const open = mathDelimiter(this.peek()!)!;
+    const close = CLOSING_DELIMITERS.get(open)!;
+    const display = open === "$$" || open === "\\[";
+    this.builder.start_node(display ? SyntaxKind.Equation : SyntaxKind.Formula)
     this.consume();
-    while (this.hasNext) {
+    while (this.hasNext()) {
       let token = this.peek()!;
-      if (token.type == TokenType.RightCurly || isCommand(token, "end") || isCommand(token, "]")) {
+      if (token.type == TokenType.RightCurly || isCommand(token, "end")) {
         break;
       }
-      this.content();
+      const delimiter = mathDelimiter(token);
+      if (delimiter === close) {
+        break;
+      }
+      if (delimiter === "$$" && close === "$") {
+        // $a$$b$ is two formulas
+        this.splitDollar();
+        break;
+      }
+      this.math_content();
     }
-    this.expectCommand("]");
+    this.expectDelimiter(close);
     this.builder.end_node();
   }
 
-  formula() {
-    this.builder.start_node(SyntaxKind.Formula)
+  // splits the current $$ token into two $ tokens
+  splitDollar() {
+    const token = this.peek()!;
+    const start = token.range.start;
+    const first = { ...token, source: "$", range: { start: start, end: start + 1 } };
+    const second = { ...token, source: "$", offset: start + 1, range: { start: start + 1, end: start + 2 } };
+    this.tokens.splice(this.idx, 1, first, second);
+  }
+
+  expectDelimiter(delimiter: string): boolean {
+    let token = this.peek();
+    if (token === null || mathDelimiter(token) !== delimiter) {
+      const type = delimiter.startsWith("$") ? TokenType.Dollar : TokenType.Command;
+      this.missing(`Expected ${delimiter}, found ${token === null ? "end of input" : token.source} instead`, type);
+      return false;
+    }
     this.consume();
-    while (this.hasNext) {
-      let token = this.peek()!;
-      if (token.type == TokenType.RightCurly || token.type == TokenType.Dollar || isCommand(token, "end")) {
+    return true;
+  }
+
+  // content in math mode, where math delimiters can't appear
+  math_content() {
+    let token = this.peek()!;
+    if (mathDelimiter(token) !== null) {
+      this.errorToken(`Unexpected ${token.source} in math mode`);
+      return;
+    }
+    this.content();
+  }
+
+  // Lexes the text from the current token on with `lexFn` (a verbatim mode) instead, returning the
+  // new token (if any). Tokens that overlap it are replaced by lexing what follows it as usual
+  // (until the tokens line up again).
+  relex(lexFn: (lexer: Lexer<TokenType>, type: TokenType) => Maybe<Token<TokenType>>, type: TokenType): Maybe<Token<TokenType>> {
+    const start = this.currentRange().start;
+    const catcodes = this.currentCatcodes();
+    this.lexer.reset(start, this.lexer.end);
+    this.lexer.setCatcodes(catcodes);
+    const token = lexFn(this.lexer, type);
+    if (token === null) {
+      return null;
+    }
+
+    let i = this.idx;
+    let relexed: Token<TokenType>[] = [];
+    let replacedCatcodes = catcodes; // after the replaced tokens
+    const diagnostics = this.lexer.diagnostics.length;
+    while (true) {
+      while (i < this.tokens.length && this.tokens[i].range.start < this.lexer.offset) {
+        replacedCatcodes = applyCatcodes(replacedCatcodes, this.tokens[i]);
+        i++;
+      }
+      // (if the replaced tokens changed the catcodes, such as a \makeatletter in a verbatim environment,
+      // everything after them has to be lexed again)
+      const aligned = i < this.tokens.length && this.tokens[i].range.start === this.lexer.offset;
+      if (aligned && sameCatcodes(replacedCatcodes, this.lexer.catcodes)) {
         break;
       }
-      this.content();
+      const next = this.lexer.nextToken();
+      if (next === null) {
+        break;
+      }
+      relexed.push(next);
     }
-    this.expect(TokenType.Dollar);
+
+    // lexer diagnostics for the replaced tokens no longer apply
+    const end = i < this.tokens.length ? this.tokens[i].range.start : this.lexer.offset;
+    const replaced = this.lexer.diagnostics.slice(0, diagnostics);
+    this.diagnostics = this.diagnostics.filter((d) => !(replaced.includes(d) && d.range.start >= start && d.range.start < end));
+    this.diagnostics.push(...this.lexer.diagnostics.slice(diagnostics));
+    this.tokens.splice(this.idx, i - this.idx, token, ...relexed);
+    return token;
+  }
+
+  // raw text, lexed as a single token (see relex)
+  verbatim() {
+    this.builder.start_node(SyntaxKind.Verbatim);
+    this.consume();
     this.builder.end_node();
   }
 
+  // the parameter text of a TeX definition, kept as raw tokens inside a text node (if there is any)
+  parameter_text() {
+    const stop = [TokenType.LeftCurly, TokenType.RightCurly, TokenType.LineBreak];
+    let token = this.peek();
+    if (token === null || stop.includes(token.type)) {
+      return;
+    }
+    this.builder.start_node(SyntaxKind.Text, ArgMode.Verbatim);
+    while (this.hasNext() && !stop.includes(this.peek()!.type)) {
+      this.consume();
+    }
+    this.builder.end_node();
+  }
+
+  // index of the next non-trivia token, starting from the current one
+  peekPastTrivia(): number {
+    let i = this.idx;
+    while (i < this.tokens.length && isTrivia(this.tokens[i].type)) {
+      i++;
+    }
+    return i;
+  }
+
+  // parses a single argument (along with any trivia before it), returning false if it isn't there
+  argument(arg: ArgSpec): boolean {
+    if (arg.kind === ArgKind.Parameters) {
+      this.parameter_text();
+      return true;
+    }
+    if (arg.kind === ArgKind.Delimited) {
+      const token = this.relex(lexDelimited, TokenType.Verbatim);
+      if (token === null) {
+        const start = this.currentRange().start;
+        const found = this.peek() === null ? "end of input" : JSON.stringify(this.lexer.source[start]);
+        this.error(`Expected a delimited argument, found ${found} instead`, { start: start, end: start });
+        return false;
+      }
+      const close = token.source[0] === "{" ? "}" : token.source[0];
+      if (token.source.length < 2 || !token.source.endsWith(close)) {
+        this.error(`Unterminated verbatim argument (expected ${close})`, token.range);
+      }
+      this.verbatim();
+      return true;
+    }
+
+    const i = this.peekPastTrivia();
+    if (i >= this.tokens.length) {
+      return false;
+    }
+    const token = this.tokens[i];
+
+    if (arg.kind === ArgKind.Optional) {
+      if (token.type !== TokenType.LeftBracket) {
+        return false;
+      }
+      this.trivia();
+      this.bracket_group(arg.mode);
+      return true;
+    }
+
+    if (token.type === TokenType.LeftCurly) {
+      this.trivia();
+      if (arg.mode === ArgMode.Verbatim) {
+        this.verbatim_group();
+      } else {
+        this.curly_group(arg.mode);
+      }
+      return true;
+    }
+    // like TeX, a single command can be an argument without braces (as in \newcommand\foo{...})
+    if (token.type === TokenType.Command && isControlWord(token) && !isCommand(token, "begin") && !isCommand(token, "end")) {
+      this.trivia();
+      this.consume();
+      return true;
+    }
+    return false;
+  }
+
+  // parses the arguments of a command according to its signature
+  // commands without a known signature are parsed without any arguments
   command() {
+    const name = this.peek()!.tokenData;
+    const sig: Maybe<CommandSignature> = this.registry.get(name);
+
     this.builder.start_node(SyntaxKind.Command);
     this.consume();
-    while (this.hasNext()) {
-      let token = this.peek()!;
-      switch (token.type) {
-        case TokenType.Whitespace:
-        case TokenType.LineBreak:
-        case TokenType.LineComment: {
-          this.consume();
+    if (sig !== null) {
+      let token = this.peek();
+      if (sig.starred && token !== null && sig.args.some((arg) => arg.kind === ArgKind.Delimited)) {
+        // the star may have been lexed along with a delimited argument (as in \verb*+...+)
+        this.relex((lexer, type) => lexer.source[lexer.index] === "*" ? lexer.emit(type, 1) : null, TokenType.Word);
+        token = this.peek();
+      }
+      if (sig.starred && token !== null && token.type === TokenType.Word && token.source === "*") {
+        this.consume();
+      }
+      for (const arg of sig.args) {
+        // a missing mandatory argument ends the arguments (TeX would take the next token instead)
+        if (!this.argument(arg) && arg.kind === ArgKind.Mandatory) {
           break;
         }
-        case TokenType.LeftCurly: {
-          this.curly_group();
-          continue;
-        }
-        case TokenType.LeftBracket:
-        case TokenType.LeftParen: {
-          this.mixed_group();
-          continue;
-        }
-        default:
-          throw new ParseError("Unimplemented")
       }
-      break;
     }
     this.builder.end_node();
   }
 
-  begin() {
+  // the {name} of an environment, kept as raw tokens (so that names like align* or my-env work)
+  name_group() {
+    this.builder.start_node(SyntaxKind.NameGroup);
+    this.expect(TokenType.LeftCurly);
+    while (this.hasNext()) {
+      let token = this.peek()!;
+      if (token.type === TokenType.RightCurly || token.type === TokenType.LeftCurly) {
+        break;
+      }
+      this.consume();
+    }
+    this.expect(TokenType.RightCurly);
+    this.builder.end_node();
+  }
+
+  begin(sig: Maybe<EnvironmentSignature> = null) {
     this.builder.start_node(SyntaxKind.Begin);
     this.consume();
     this.trivia();
 
-    let token = this.peek()!;
-    if (token.type === TokenType.LeftCurly) {
-      this.curly_group();
+    let token = this.peek();
+    if (token !== null && token.type === TokenType.LeftCurly) {
+      this.name_group();
+    } else {
+      this.missing("Expected environment name", TokenType.LeftCurly);
     }
 
-    if (token.type === TokenType.LeftBracket) {
-      this.bracket_group();
+    if (sig !== null) {
+      for (const arg of sig.args) {
+        if (!this.argument(arg) && arg.kind === ArgKind.Mandatory) {
+          break;
+        }
+      }
+    } else {
+      // environments without a known signature may have an [optional argument] right after the name
+      token = this.peek();
+      if (token !== null && token.type === TokenType.LeftBracket) {
+        this.bracket_group();
+      }
     }
 
     this.builder.end_node();
@@ -275,25 +633,105 @@ export class LatexParser extends Parser<TokenType, SyntaxKind> {
     this.consume();
     this.trivia();
 
-    let token = this.peek()!;
-    if (token.type === TokenType.LeftCurly) {
-      this.curly_group();
+    let token = this.peek();
+    if (token !== null && token.type === TokenType.LeftCurly) {
+      this.name_group();
+    } else {
+      this.missing("Expected environment name", TokenType.LeftCurly);
     }
 
     this.builder.end_node();
   }
 
+  // the name of the environment of the current \begin or \end token, by looking ahead
+  environmentName(): Maybe<string> {
+    let i = this.idx + 1;
+    while (i < this.tokens.length && isTrivia(this.tokens[i].type)) {
+      i++;
+    }
+    if (i >= this.tokens.length || this.tokens[i].type !== TokenType.LeftCurly) {
+      return null;
+    }
+    let name = "";
+    for (i++; i < this.tokens.length && this.tokens[i].type !== TokenType.RightCurly; i++) {
+      if (this.tokens[i].type === TokenType.LeftCurly) {
+        return null;
+      }
+      name += this.tokens[i].source;
+    }
+    return i < this.tokens.length ? name.trim() : null;
+  }
+
+  // whether the current token is an \end of one of the open environments
+  closesEnvironment(): boolean {
+    let token = this.peek();
+    if (token === null || !isCommand(token, "end")) {
+      return false;
+    }
+    const name = this.environmentName();
+    return name !== null && this.environments.includes(name);
+  }
+
+  // the range from the current token up to the end of the last consumed token, after running `fn`
+  measure(fn: () => void): TextRange {
+    const start = this.currentRange().start;
+    fn();
+    return { start: start, end: this.idx > 0 ? this.tokens[this.idx - 1].range.end : start };
+  }
+
+  // An environment is closed by the first \end at its level, even if the names don't match.
+  // The exception is an \end of an enclosing environment, which closes that one instead
+  // (leaving this one unclosed).
   environment() {
-    this.builder.start_node(SyntaxKind.Environment);
-    this.begin();
+    const name = this.environmentName();
+    const sig = name === null ? null : this.registry.getEnvironment(name);
+    const math = sig !== null && sig.mode === ArgMode.Math;
+
+    this.builder.start_node(math ? SyntaxKind.MathEnvironment : SyntaxKind.Environment);
+    const begin = this.measure(() => this.begin(sig));
+    const beginText = `\\begin{${name ?? ""}}`;
+    if (sig !== null && sig.mode === ArgMode.Verbatim && this.hasNext()) {
+      // the body is raw text up to \end{name} (if there is any)
+      if (this.relex((lexer, type) => lexVerbatimUntil(lexer, type, `\\end{${name}}`), TokenType.Verbatim) !== null) {
+        this.verbatim();
+      }
+    }
+    this.environments.push(name ?? "");
     while (this.hasNext()) {
       let token = this.peek()!;
-      if (token.type === TokenType.RightCurly || isCommand(token, "end")) {
+      // (a stray } is an error inside the body, unless it closes a group around the environment)
+      if ((token.type === TokenType.RightCurly && this.groups > 0) || isCommand(token, "end")) {
         break
       }
-      this.content();
+      if (math) {
+        this.math_content();
+      } else {
+        this.content();
+      }
+    }
+    this.environments.pop();
+
+    let token = this.peek();
+    const end = token !== null && isCommand(token, "end");
+    const endName = end ? this.environmentName() : null;
+    // the \end of an enclosing environment leaves this one unclosed
+    const enclosing = end && endName !== name && this.closesEnvironment();
+    if (end && !enclosing) {
+      const range = this.measure(() => this.end());
+      if (name !== null && endName !== null && endName !== name) {
+        this.error(`\\end{${endName}} does not match ${beginText}`, range, Severity.Error, [
+          { message: `${beginText} is here`, range: begin },
+        ]);
+      }
+    } else {
+      let related: RelatedInformation[] = [];
+      if (enclosing) {
+        related.push({ message: `\\end{${endName}} closes an enclosing environment`, range: this.currentRange() });
+      }
+      this.error(`Unclosed environment ${beginText}`, begin, Severity.Error, related);
+      this.builder.start_node(SyntaxKind.Missing, TokenType.Command);
+      this.builder.end_node();
     }
-    this.end();
     this.builder.end_node();
   }
 
@@ -308,7 +746,6 @@ export class LatexParser extends Parser<TokenType, SyntaxKind> {
 
   content() {
     let token = this.peek()!;
-    const [row, col] = this.lexer.getSourceLocation(token.offset);
     switch (token.type) {
       case TokenType.Whitespace:
       case TokenType.LineBreak:
@@ -319,7 +756,8 @@ export class LatexParser extends Parser<TokenType, SyntaxKind> {
       case TokenType.RightCurly:
       case TokenType.RightParen:
       case TokenType.RightBracket: {
-        throw new ParseError(`Unmatched punctuation at ${row}:${col}`)
+        this.errorToken("Unmatched punctuation");
+        break;
       }
       case TokenType.LeftCurly: {
         this.curly_group();
@@ -331,13 +769,17 @@ export class LatexParser extends Parser<TokenType, SyntaxKind> {
         break;
       }
       case TokenType.Dollar: {
-        this.formula();
+        this.math();
         break;
       }
       case TokenType.Word: {
         this.text();
         break;
       }
+      case TokenType.Verbatim: {
+        this.verbatim();
+        break;
+      }
       case TokenType.Eq:
       case TokenType.Pipe:
       case TokenType.Comma: {
@@ -347,15 +789,31 @@ export class LatexParser extends Parser<TokenType, SyntaxKind> {
       case TokenType.Command: {
         if (token.tokenData === "begin") {
           this.environment();
-        } else if (token.tokenData === "[") {
-          this.equation();
+        } else if (token.tokenData === "end") {
+          // an \end without a matching \begin
+          const name = this.environmentName();
+          const range = this.measure(() => {
+            this.builder.start_node(SyntaxKind.Error);
+            this.end();
+            this.builder.end_node();
+          });
+          this.error(name === null ? "Unmatched \\end" : `Unmatched \\end{${name}}`, range);
+        } else if (token.tokenData === "[" || token.tokenData === "(") {
+          this.math();
+        } else if (token.tokenData === "]" || token.tokenData === ")") {
+          this.errorToken(`Unmatched ${token.source}`);
         } else {
           this.command();
         }
         break;
       }
+      case TokenType.Unknown: {
+        // already reported by the lexer
+        this.skipToken();
+        break;
+      }
       default:
-        throw new ParseError("Unimplemented")
+        this.errorToken(`Unexpected token ${token.source}`);
     }
   }
 
@@ -371,49 +829,105 @@ export class LatexParser extends Parser<TokenType, SyntaxKind> {
   }
 }
 
+export function parseLatex(text: string, registry: CommandRegistry = STANDARD_COMMANDS, catcodes: Catcodes = DEFAULT_CATCODES): ParseResult<TokenType, SyntaxKind> {
+  const parser = new LatexParser(new LatexLexer(text, catcodes), registry);
+  return parser.parseWithDiagnostics();
+}
+
 // AST
-// a typed layer over parse tree nodes
+// a typed layer over parse tree nodes (see cast)
+
+type LatexNode = ParseTreeNode<TokenType, SyntaxKind>;
+type LatexElement = TokenOrNode<TokenType, SyntaxKind>;
 
-export class Begin implements ASTNode<TokenType, SyntaxKind> {
-  syntax: ParseTreeNode<TokenType, SyntaxKind>;
-  type: SyntaxKind.Begin;
+// the child nodes of a given kind
+function childNodes(node: LatexNode, kinds: SyntaxKind[]): LatexNode[] {
+  return node.children.filter((child): child is LatexNode => isNode(child) && kinds.includes(child.kind));
+}
 
-  constructor(syntax: ParseTreeNode<TokenType, SyntaxKind>) {
-    assert(syntax !== null);
-    assert(syntax.kind === SyntaxKind.Begin);
-    this.syntax = syntax;
+// every node of a given kind below `node`, in document order
+function descendantNodes(node: LatexNode, kinds: SyntaxKind[]): LatexNode[] {
+  let result: LatexNode[] = [];
+  for (const child of node.children) {
+    if (isNode(child)) {
+      if (kinds.includes(child.kind)) {
+        result.push(child);
+      }
+      result.push(...descendantNodes(child, kinds));
+    }
   }
+  return result;
+}
 
-  name(): Maybe<string> {
-    let tok = findFirstToken(this.syntax.children, TokenType.Word);
-    return tok === null ? null : tok.source
+// the base class of the wrappers for nodes of the given kinds
+function latexNode<K extends SyntaxKind>(...kinds: K[]) {
+  return astNode<TokenType, SyntaxKind, K>(kinds);
+}
+
+// the environment name of a \begin or \end node
+function nameGroupText(node: LatexNode): Maybe<string> {
+  let group = findFirstNode(node.children, SyntaxKind.NameGroup);
+  return group === null ? null : new NameGroup(group).name();
+}
+
+export class Root extends latexNode(SyntaxKind.Root) {
+  // every environment in the document (including nested ones), in document order
+  environments(): Environment[] {
+    return descendantNodes(this.syntax, [SyntaxKind.Environment, SyntaxKind.MathEnvironment]).map((node) => new Environment(node));
+  }
+
+  // every command in the document, in document order
+  commands(): Command[] {
+    return descendantNodes(this.syntax, [SyntaxKind.Command]).map((node) => new Command(node));
+  }
+
+  // every inline and display formula in the document (not including math environments), in document order
+  formulas(): (Formula | Equation)[] {
+    return descendantNodes(this.syntax, [SyntaxKind.Formula, SyntaxKind.Equation])
+      .map((node) => node.kind === SyntaxKind.Formula ? new Formula(node) : new Equation(node));
   }
 }
 
-export class End implements ASTNode<TokenType, SyntaxKind> {
-  syntax: ParseTreeNode<TokenType, SyntaxKind>;
-  type: SyntaxKind.End;
+export class Begin extends latexNode(SyntaxKind.Begin) {
+  name(): Maybe<string> {
+    return nameGroupText(this.syntax);
+  }
 
-  constructor(syntax: ParseTreeNode<TokenType, SyntaxKind>) {
-    assert(syntax !== null);
-    assert(syntax.kind === SyntaxKind.End);
-    this.syntax = syntax;
+  // the arguments after the name (according to the environment's signature)
+  args(): CurlyGroup[] {
+    return childNodes(this.syntax, [SyntaxKind.CurlyGroup]).map((node) => new CurlyGroup(node));
   }
 
+  optionalArgs(): BracketGroup[] {
+    return childNodes(this.syntax, [SyntaxKind.BracketGroup]).map((node) => new BracketGroup(node));
+  }
+}
+
+export class End extends latexNode(SyntaxKind.End) {
   name(): Maybe<string> {
-    let tok = findFirstToken(this.syntax.children, TokenType.Word);
-    return tok === null ? null : tok.source
+    return nameGroupText(this.syntax);
   }
 }
 
-export class Environment implements ASTNode<TokenType, SyntaxKind> {
-  syntax: ParseTreeNode<TokenType, SyntaxKind>;
-  type: SyntaxKind.Environment;
+export class NameGroup extends latexNode(SyntaxKind.NameGroup) {
+  // null if the group is unclosed
+  name(): Maybe<string> {
+    if (findFirstNode(this.syntax.children, SyntaxKind.Missing) !== null) {
+      return null;
+    }
+    return concatParseTrees(this.syntax.children.slice(1, -1)).trim();
+  }
+}
 
-  constructor(syntax: ParseTreeNode<TokenType, SyntaxKind>) {
-    assert(syntax !== null);
-    assert(syntax.kind === SyntaxKind.Environment)
-    this.syntax = syntax;
+// (for both environments and math environments)
+export class Environment extends latexNode(SyntaxKind.Environment, SyntaxKind.MathEnvironment) {
+  name(): Maybe<string> {
+    const begin = this.begin();
+    return begin === null ? null : begin.name();
+  }
+
+  math(): boolean {
+    return this.syntax.kind === SyntaxKind.MathEnvironment;
   }
 
   begin(): Maybe<Begin> {
@@ -432,6 +946,17 @@ export class Environment implements ASTNode<TokenType, SyntaxKind> {
     return new End(node);
   }
 
+  // everything between \begin and \end (or the end of the environment, if it is unclosed)
+  body(): LatexElement[] {
+    let begin = findFirstNode(this.syntax.children, SyntaxKind.Begin);
+    let i = begin === null ? 0 : this.syntax.children.indexOf(begin) + 1;
+    let j = this.syntax.children.length;
+    if (j > i && isNode(this.syntax.children[j - 1]) && [SyntaxKind.End, SyntaxKind.Missing].includes(intoNode(this.syntax.children[j - 1]).kind)) {
+      j--;
+    }
+    return this.syntax.children.slice(i, j);
+  }
+
   bodyText(): Maybe<string> {
     let begin = findFirstNode(this.syntax.children, SyntaxKind.Begin);
     let end = findFirstNode(this.syntax.children, SyntaxKind.End);
@@ -444,4 +969,197 @@ export class Environment implements ASTNode<TokenType, SyntaxKind> {
   }
 }
 
-export type Latex = Begin | End | Environment
+export class Command extends latexNode(SyntaxKind.Command) {
+  // without the backslash
+  name(): string {
+    return intoToken(this.syntax.children[0]).tokenData;
+  }
+
+  starred(): boolean {
+    const token = this.syntax.children[1];
+    return token !== undefined && isToken(token) && token.type === TokenType.Word && token.source === "*";
+  }
+
+  // the mandatory {arguments}, in order (unbraced arguments, as in \newcommand\foo, are not included)
+  args(): CurlyGroup[] {
+    return childNodes(this.syntax, [SyntaxKind.CurlyGroup]).map((node) => new CurlyGroup(node));
+  }
+
+  // the [optional arguments], in order
+  optionalArgs(): BracketGroup[] {
+    return childNodes(this.syntax, [SyntaxKind.BracketGroup]).map((node) => new BracketGroup(node));
+  }
+
+  // the delimited verbatim argument (as in \verb|...|)
+  verbatim(): Maybe<Verbatim> {
+    const node = findFirstNode(this.syntax.children, SyntaxKind.Verbatim);
+    return node === null ? null : new Verbatim(node);
+  }
+}
+
+// shared by the group kinds, which all have an opening delimiter, content, and a closing delimiter
+function group<K extends SyntaxKind>(...kinds: K[]) {
+  return class extends latexNode(...kinds) {
+    // without the delimiters
+    content(): LatexElement[] {
+      return this.syntax.children.slice(1, -1);
+    }
+
+    contentText(): string {
+      return concatParseTrees(this.content());
+    }
+
+    // whether the closing delimiter is present
+    closed(): boolean {
+      return isToken(this.syntax.children[this.syntax.children.length - 1]);
+    }
+  };
+}
+
+export class CurlyGroup extends group(SyntaxKind.CurlyGroup) {
+  // null for groups that aren't command arguments
+  mode(): Maybe<ArgMode> {
+    return this.syntax.syntaxData;
+  }
+}
+
+export class BracketGroup extends group(SyntaxKind.BracketGroup) {
+  // null for groups that aren't command arguments
+  mode(): Maybe<ArgMode> {
+    return this.syntax.syntaxData;
+  }
+}
+
+// (...) or [...], or a mix of the two (as in interval notation)
+export class MixedGroup extends group(SyntaxKind.MixedGroup) {}
+
+// shared by inline and display math
+function delimitedMath<K extends SyntaxKind>(...kinds: K[]) {
+  return class extends group(...kinds) {
+    // the opening delimiter ($, $$, \( or \[)
+    delimiter(): string {
+      return intoToken(this.syntax.children[0]).source;
+    }
+
+    body(): LatexElement[] {
+      return this.content();
+    }
+
+    bodyText(): string {
+      return this.contentText();
+    }
+  };
+}
+
+export class Formula extends delimitedMath(SyntaxKind.Formula) {}
+
+export class Equation extends delimitedMath(SyntaxKind.Equation) {}
+
+export class Text extends latexNode(SyntaxKind.Text) {
+  words(): string[] {
+    return this.syntax.children.filter((child) => isToken(child) && child.type === TokenType.Word).map((child) => intoToken(child).source);
+  }
+
+  text(): string {
+    return concatParseTree(this.syntax);
+  }
+}
+
+export class Verbatim extends latexNode(SyntaxKind.Verbatim) {
+  // without the delimiters of a delimited argument
+  text(): string {
+    return intoToken(this.syntax.children[0]).tokenData;
+  }
+}
+
+// unexpected tokens (named to avoid shadowing the builtin Error)
+export class ErrorNode extends latexNode(SyntaxKind.Error) {
+  text(): string {
+    return concatParseTree(this.syntax);
+  }
+}
+
+export class Missing extends latexNode(SyntaxKind.Missing) {
+  // the type of the token that was expected
+  expected(): Maybe<TokenType> {
+    return this.syntax.syntaxData;
+  }
+}
+
+export type Latex = Root | Begin | End | NameGroup | Environment | Command | CurlyGroup | BracketGroup | MixedGroup | Formula | Equation | Text | Verbatim | ErrorNode | Missing
+
+// wraps a node in the class for its kind
+export function cast(node: LatexNode): Latex {
+  switch (node.kind) {
+    case SyntaxKind.Root:
+      return new Root(node);
+    case SyntaxKind.Begin:
+      return new Begin(node);
+    case SyntaxKind.End:
+      return new End(node);
+    case SyntaxKind.NameGroup:
+      return new NameGroup(node);
+    case SyntaxKind.Environment:
+    case SyntaxKind.MathEnvironment:
+      return new Environment(node);
+    case SyntaxKind.Command:
+      return new Command(node);
+    case SyntaxKind.CurlyGroup:
+      return new CurlyGroup(node);
+    case SyntaxKind.BracketGroup:
+      return new BracketGroup(node);
+    case SyntaxKind.MixedGroup:
+      return new MixedGroup(node);
+    case SyntaxKind.Formula:
+      return new Formula(node);
+    case SyntaxKind.Equation:
+      return new Equation(node);
+    case SyntaxKind.Text:
+      return new Text(node);
+    case SyntaxKind.Verbatim:
+      return new Verbatim(node);
+    case SyntaxKind.Error:
+      return new ErrorNode(node);
+    case SyntaxKind.Missing:
+      return new Missing(node);
+  }
+}
+
+// Queries
+// (see query.ts)
+
+export const LATEX_QUERY: QueryLanguage<TokenType, SyntaxKind> = {
+  kinds: SyntaxKind,
+  attribute: (node: SyntaxNode<TokenType, SyntaxKind>, name: string): Maybe<string> => {
+    const ast = cast(node.green);
+    switch (name) {
+      case "name": {
+        if (ast instanceof Command || ast instanceof Environment || ast instanceof Begin || ast instanceof End || ast instanceof NameGroup) {
+          return ast.name();
+        }
+        return null;
+      }
+      case "starred": {
+        return ast instanceof Command && ast.starred() ? "true" : null;
+      }
+      case "math": {
+        return ast instanceof Environment && ast.math() ? "true" : null;
+      }
+      case "mode": {
+        if (ast instanceof CurlyGroup || ast instanceof BracketGroup) {
+          const mode = ast.mode();
+          return mode === null ? null : ArgMode[mode];
+        }
+        return null;
+      }
+      case "delimiter": {
+        return ast instanceof Formula || ast instanceof Equation ? ast.delimiter() : null;
+      }
+      case "text": {
+        return node.text();
+      }
+      default:
+        return null;
+    }
+  },
+};
@@ -1,4 +1,6 @@
-import { Maybe, Enum, assert } from "./util"
+import { Maybe, Enum, TextRange } from "./util"
+import { Diagnostic, Severity } from "./diagnostic"
+import { LineIndex } from "./lineindex"
 
 export class LexError extends Error {
   override name = "LexError";
@@ -11,107 +13,210 @@ export interface Token<TokenType> {
   type: TokenType,
   tokenData: any,
   source: string,
-  offset: number,
+  offset: number, // always equal to range.start
+  range: TextRange,
 }
 
 // Something that is potentially able to generate a token, given a lexer's current state.
-// Custom lexing functions are responsible for updating the index and offset of the lexer
-// (and not updating those fields if lexing fails)
-export type LexerFn<TokenType extends Enum> = RegExp | ((lexer: Lexer<TokenType>) => Maybe<Token<TokenType>>)
+// Custom lexing functions are given the type of the token they lex, and are responsible for
+// updating the index and offset of the lexer (and not updating those fields if lexing fails),
+// which Lexer.emit takes care of.
+// The last lexing function should always succeed (see lexUnknown), so that every character
+// of the source ends up in some token.
+export type LexerFn<TokenType extends Enum> = RegExp | ((lexer: Lexer<TokenType>, type: TokenType) => Maybe<Token<TokenType>>)
 
 // a dictionary associating token types with their corresponding lexing function 
 export type LexFns<TokenType extends Enum> = {
   [K in TokenType]: LexerFn<TokenType>;
 }
 
+// Matches a single character that no other lexing function accepts, and records a diagnostic for it.
+// Lexers should use this as their last lexing function, so that tokenizing never fails.
+export function lexUnknown<TokenType extends Enum>(lexer: Lexer<TokenType>, type: TokenType): Maybe<Token<TokenType>> {
+  if (!lexer.hasNext()) {
+    return null;
+  }
+  // don't split up surrogate pairs
+  const length = lexer.source.codePointAt(lexer.index)! > 0xffff ? 2 : 1;
+  const source = lexer.source.slice(lexer.index, lexer.index + length);
+  const message = source === "\\" && lexer.index + 1 === lexer.source.length
+    ? "Unexpected end of input after \\"
+    : `Unexpected character ${JSON.stringify(source)}`;
+
+  const token = lexer.emit(type, length);
+  lexer.diagnostics.push({
+    message: message,
+    range: token.range,
+    severity: Severity.Error,
+  });
+  return token;
+}
+
+// Lexing functions compiled into a form that can be matched without slicing the source.
+// Runs of consecutive regexes are merged into a single sticky (/y) regex, where each alternative
+// is wrapped in a capture group to tell which token type matched. Since JS tries alternatives
+// in order, the precedence given by the TokenType enum is preserved.
+// The sticky flag anchors the whole regex, so a leading ^ is dropped, and any other anchor (which
+// would no longer mean the start of the input) is rejected.
+type CompiledLexFn<TokenType extends Enum> =
+  | { kind: "regex", regex: RegExp, groups: [number, TokenType][] } // capture group index -> token type
+  | { kind: "fn", fn: (lexer: Lexer<TokenType>, type: TokenType) => Maybe<Token<TokenType>>, type: TokenType }
+
+// compiled lexFns are shared between all lexers using the same LexFns object
+const compiledCache: WeakMap<object, CompiledLexFn<any>[]> = new WeakMap();
+
+function countCaptureGroups(regex: RegExp) {
+  // an alternation with the empty string always matches, and the result has one entry per group
+  return new RegExp(regex.source + "|").exec("")!.length - 1;
+}
+
+function compileLexFns<TokenType extends Enum>(lexFns: LexFns<TokenType>): CompiledLexFn<TokenType>[] {
+  const cached = compiledCache.get(lexFns);
+  if (cached !== undefined) {
+    return cached;
+  }
+
+  let compiled: CompiledLexFn<TokenType>[] = [];
+  let sources: string[] = [];
+  let groups: [number, TokenType][] = [];
+  let flags = "";
+  let groupCount = 0;
+
+  const flush = () => {
+    if (sources.length > 0) {
+      compiled.push({ kind: "regex", regex: new RegExp(sources.join("|"), flags + "y"), groups: groups });
+    }
+    sources = [];
+    groups = [];
+    groupCount = 0;
+  };
+
+  const N = Object.keys(lexFns).length;
+  for (let i = 0; i < N; i++) {
+    const type = i as TokenType;
+    const lexFn = lexFns[type];
+    if (lexFn instanceof RegExp) {
+      const lexFlags = lexFn.flags.replace(/[gy]/g, "");
+      if (lexFlags !== flags) {
+        flush();
+        flags = lexFlags;
+      }
+      // the sticky flag takes care of anchoring
+      const source = lexFn.source.startsWith("^") ? lexFn.source.slice(1) : lexFn.source;
+      if (/(^|[^\\])(\\\\)*[\^$]/.test(source.replace(/\[(\\.|[^\]])*\]/g, ""))) {
+        throw new LexError(`Unsupported anchor in the lexing regex for token type ${String(type)}: ${lexFn}`);
+      }
+      sources.push(`(${source})`);
+      groups.push([groupCount + 1, type]);
+      groupCount += 1 + countCaptureGroups(lexFn);
+    } else {
+      flush();
+      compiled.push({ kind: "fn", fn: lexFn, type: type });
+    }
+  }
+  flush();
+
+  compiledCache.set(lexFns, compiled);
+  return compiled;
+}
+
 export class Lexer<TokenType extends Enum> {
   lexFns: LexFns<TokenType>;
+  compiled: CompiledLexFn<TokenType>[];
 
   source: string;
   index: number;
   offset: number;
+  end: number; // lexing stops once index reaches end
+  diagnostics: Diagnostic[];
+  lineIndex: Maybe<LineIndex>; // built on first use
 
   constructor(source: string, lexFns: LexFns<TokenType>) {
     this.source = source;
     this.lexFns = lexFns;
+    this.compiled = compileLexFns(lexFns);
 
     this.index = 0;
     this.offset = 0;
+    this.end = source.length;
+    this.diagnostics = [];
+    this.lineIndex = null;
+  }
+
+  // creates a token for the next `length` characters of the source, and advances past them
+  emit(type: TokenType, length: number, tokenData: any = null): Token<TokenType> {
+    let token: Token<TokenType> = {
+      type: type,
+      tokenData: tokenData,
+      source: this.source.slice(this.index, this.index + length),
+      offset: this.offset,
+      range: { start: this.offset, end: this.offset + length },
+    };
+
+    this.index += length;
+    this.offset += length;
+
+    return token;
+  }
+
+  getLineIndex(): LineIndex {
+    if (this.lineIndex === null) {
+      this.lineIndex = new LineIndex(this.source);
+    }
+    return this.lineIndex;
   }
 
   hasNext() {
-    return this.index < this.source.length;
+    return this.index < this.end;
+  }
+
+  // restricts lexing to part of the source (used for relexing after an edit)
+  // tokens are still matched against the whole source, so the last token may extend past `end`
+  reset(start: number, end: number = this.source.length) {
+    this.index = start;
+    this.offset = start;
+    this.end = end;
   }
 
   // returns row and column value corresponding to an absolute offset in the text source.
   // offset is zero-indexed, returned row/col should be 1-indexed
   getSourceLocation(offset: number): [number, number] {
-    if (offset < 0 || offset >= this.source.length) {
+    if (offset < 0 || offset > this.source.length) {
       throw new LexError(`Offset ${offset} out of bounds for source text of length ${this.source.length}`)
     }
-    const lines = this.source.split("\n");
-
-    // Iterate by row until we reach the desired index
-    // This could probably replaced by a fancy binary search algorithm
-    // but I don't think the extra performance is necessary as of now
-    let row = 0
-    let currOffset = 0;
-    while (currOffset <= offset) {
-      const currLine = lines[row]
-      if (currOffset + currLine.length + 1 > offset) {
-        const col = offset - currOffset;
-        return [row + 1, col + 1]
-      } else {
-        currOffset += currLine.length + 1
-        row++
-      }
-    }
-    assert(false)
+    const { line, col } = this.getLineIndex().lineCol(offset);
+    return [line + 1, col + 1];
   }
 
   // The order of precedence (and the tokens that are actually checked for) is specified
   // using the types parameter.
   nextToken(): Maybe<Token<TokenType>> {
-    if (this.index === this.source.length) {
+    if (!this.hasNext()) {
       return null;
     }
 
-    const N = Object.keys(this.lexFns).length
     // iterate through each lexFn in order determined by the TokenType enum
-    for (const i of Array(N).keys()) {
-      const lexFn = this.lexFns[i] as LexerFn<TokenType>
-
-      if (lexFn instanceof RegExp) {
-        // match regex
-        let match = lexFn.exec(this.source.slice(this.index));
+    for (const lexFn of this.compiled) {
+      if (lexFn.kind === "regex") {
+        lexFn.regex.lastIndex = this.index;
+        const match = lexFn.regex.exec(this.source);
         if (match === null) {
           continue;
         }
-        let captured = match[0];
-
-        // construct token with info
-        let token = {
-          type: i,
-          tokenData: null,
-          source: this.source.slice(this.index, this.index + captured.length),
-          offset: this.offset,
-        } as Token<TokenType>;
-
-        // iterate index/column/row counters
-        this.offset += captured.length;
-        this.index += captured.length;
-
-        return token;
-
+        // find out which alternative matched
+        for (const [group, type] of lexFn.groups) {
+          if (match[group] !== undefined) {
+            return this.emit(type, match[0].length);
+          }
+        }
       } else {
-        const tok = lexFn(this);
+        const tok = lexFn.fn(this, lexFn.type);
         if (tok !== null) {
-          tok.type = i as TokenType; // since the lexFn may assign the wrong type...
           return tok
         }
       }
     }
-    return null;
+    throw new LexError(`No lexing function matched at offset ${this.offset} (is lexUnknown missing?)`);
   }
 
   tokenize(): Token<TokenType>[] {
@@ -0,0 +1,104 @@
+// Converts between absolute offsets in a source text and line/column positions.
+// The index is built once per source text, after which lookups are a binary search.
+import { TextRange } from "./util"
+
+// how columns are counted within a line
+// offsets into JS strings (and LSP positions) are in UTF-16 code units, but
+// some consumers (e.g. terminal output) want one column per code point
+export enum ColumnEncoding {
+  Utf16,
+  CodePoint,
+}
+
+// a zero-indexed line/column pair
+export interface LineCol {
+  line: number,
+  col: number,
+}
+
+export class LineIndex {
+  text: string;
+  lineStarts: number[]; // offset of the first character of each line
+
+  constructor(text: string) {
+    this.text = text;
+    this.lineStarts = [0];
+    for (let i = 0; i < text.length; i++) {
+      const c = text[i];
+      if (c === "\r" && text[i + 1] === "\n") {
+        // \r\n counts as a single line break
+        continue;
+      }
+      if (c === "\n" || c === "\r") {
+        this.lineStarts.push(i + 1);
+      }
+    }
+  }
+
+  lineCount(): number {
+    return this.lineStarts.length;
+  }
+
+  // the range of a line, excluding its line break
+  lineRange(line: number): TextRange {
+    if (line < 0 || line >= this.lineStarts.length) {
+      throw new RangeError(`Line ${line} out of bounds for source text with ${this.lineStarts.length} lines`);
+    }
+    const start = this.lineStarts[line];
+    let end = line + 1 < this.lineStarts.length ? this.lineStarts[line + 1] : this.text.length;
+    if (end > start && this.text[end - 1] === "\n") {
+      end--;
+    }
+    if (end > start && this.text[end - 1] === "\r") {
+      end--;
+    }
+    return { start: start, end: end };
+  }
+
+  // offset may be equal to the length of the text (the position after the last character)
+  lineCol(offset: number, encoding: ColumnEncoding = ColumnEncoding.Utf16): LineCol {
+    if (offset < 0 || offset > this.text.length) {
+      throw new RangeError(`Offset ${offset} out of bounds for source text of length ${this.text.length}`);
+    }
+
+    // find the last line starting at or before the offset
+    let lo = 0;
+    let hi = this.lineStarts.length - 1;
+    while (lo < hi) {
+      const mid = (lo + hi + 1) >> 1;
+      if (this.lineStarts[mid] <= offset) {
+        lo = mid;
+      } else {
+        hi = mid - 1;
+      }
+    }
+
+    const start = this.lineStarts[lo];
+    if (encoding === ColumnEncoding.Utf16) {
+      return { line: lo, col: offset - start };
+    }
+    let col = 0;
+    for (let i = start; i < offset; i++) {
+      const code = this.text.charCodeAt(i);
+      // only count the high half of a surrogate pair
+      if (code < 0xdc00 || code > 0xdfff) {
+        col++;
+      }
+    }
+    return { line: lo, col: col };
+  }
+
+  // the inverse of lineCol
+  // columns past the end of a line are clamped to the end of the line
+  offset(position: LineCol, encoding: ColumnEncoding = ColumnEncoding.Utf16): number {
+    const range = this.lineRange(position.line);
+    if (encoding === ColumnEncoding.Utf16) {
+      return Math.min(range.start + position.col, range.end);
+    }
+    let offset = range.start;
+    for (let col = 0; col < position.col && offset < range.end; col++) {
+      offset += this.text.codePointAt(offset)! > 0xffff ? 2 : 1;
+    }
+    return offset;
+  }
+}
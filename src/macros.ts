@@ -0,0 +1,181 @@
+// Analysis of macro definitions (\newcommand, \DeclareMathOperator, \def, ...)
+// These usually live in the preamble of a document, or in a separate .sty file of macros.
+import { TokenType, SyntaxKind } from "./latex"
+import { ParseTreeNode, TokenOrNode, isToken, concatParseTrees } from "./parser"
+import { SyntaxNode } from "./syntax"
+import { CommandRegistry, CommandSignature, ArgKind, ArgMode } from "./commands"
+import { Maybe, TextRange } from "./util"
+
+export enum MacroKind {
+  NewCommand,
+  RenewCommand,
+  ProvideCommand,
+  DeclareMathOperator,
+  Def, // \def, \gdef, \edef and \xdef
+}
+
+const DEFINITION_COMMANDS: Map<string, MacroKind> = new Map([
+  ["newcommand", MacroKind.NewCommand],
+  ["renewcommand", MacroKind.RenewCommand],
+  ["providecommand", MacroKind.ProvideCommand],
+  ["DeclareMathOperator", MacroKind.DeclareMathOperator],
+  ["def", MacroKind.Def],
+  ["gdef", MacroKind.Def],
+  ["edef", MacroKind.Def],
+  ["xdef", MacroKind.Def],
+]);
+
+export interface MacroDefinition {
+  kind: MacroKind,
+  name: string, // without the backslash
+  arity: number, // number of parameters (including the optional one)
+  defaultArg: Maybe<string>, // if present, the first parameter is optional with this default
+  body: Maybe<ParseTreeNode<TokenType, SyntaxKind>>, // the curly group containing the replacement text
+  operator: boolean, // whether the macro is a math operator name (from \DeclareMathOperator)
+  starred: boolean,
+  range: TextRange, // the whole definition
+}
+
+type LatexElement = TokenOrNode<TokenType, SyntaxKind>;
+
+function isTrivia(element: LatexElement) {
+  return isToken(element) && [TokenType.Whitespace, TokenType.LineBreak, TokenType.LineComment].includes(element.type);
+}
+
+// the command being defined, either given directly (\newcommand\foo) or in a group (\newcommand{\foo})
+function definedName(element: LatexElement): Maybe<string> {
+  if (isToken(element)) {
+    return element.type === TokenType.Command ? element.tokenData : null;
+  }
+  if (element.kind === SyntaxKind.Command) {
+    return definedName(element.children[0]);
+  }
+  if (element.kind === SyntaxKind.CurlyGroup) {
+    for (const child of element.children) {
+      if (!isTrivia(child) && !(isToken(child) && (child.type === TokenType.LeftCurly || child.type === TokenType.RightCurly))) {
+        return definedName(child);
+      }
+    }
+  }
+  return null;
+}
+
+// the text inside a group, without the surrounding braces/brackets
+export function groupText(group: ParseTreeNode<TokenType, SyntaxKind>): string {
+  return concatParseTrees(group.children.slice(1, -1));
+}
+
+// the replacement text of a macro (without the surrounding braces)
+export function macroBodyText(def: MacroDefinition): string {
+  return def.body === null ? "" : groupText(def.body);
+}
+
+// analyzes a single definition command, returning null if it isn't a (well-formed) definition
+export function analyzeDefinition(node: SyntaxNode<TokenType, SyntaxKind>): Maybe<MacroDefinition> {
+  if (node.kind() !== SyntaxKind.Command) {
+    return null;
+  }
+  const children = node.green.children;
+  const command = children[0];
+  if (!isToken(command) || !DEFINITION_COMMANDS.has(command.tokenData)) {
+    return null;
+  }
+  const kind = DEFINITION_COMMANDS.get(command.tokenData)!;
+
+  const args = children.slice(1).filter((child) => !isTrivia(child));
+  let starred = false;
+  if (args.length > 0 && isToken(args[0]) && args[0].source === "*") {
+    starred = true;
+    args.shift();
+  }
+  if (args.length === 0) {
+    return null;
+  }
+  const name = definedName(args.shift()!);
+  if (name === null) {
+    return null;
+  }
+
+  let arity = 0;
+  let defaultArg: Maybe<string> = null;
+  let body: Maybe<ParseTreeNode<TokenType, SyntaxKind>> = null;
+  let brackets = 0;
+  for (const arg of args) {
+    if (isToken(arg)) {
+      continue;
+    }
+    if (arg.kind === SyntaxKind.BracketGroup) {
+      // [arity][default]
+      if (brackets === 0) {
+        arity = parseInt(groupText(arg).trim()) || 0;
+      } else if (brackets === 1) {
+        defaultArg = groupText(arg);
+      }
+      brackets++;
+    } else if (arg.kind === SyntaxKind.Text && kind === MacroKind.Def) {
+      // parameter text: the highest #n gives the number of parameters
+      for (const match of concatParseTrees(arg.children).matchAll(/#([1-9])/g)) {
+        arity = Math.max(arity, parseInt(match[1]));
+      }
+    } else if (arg.kind === SyntaxKind.CurlyGroup) {
+      body = arg;
+    }
+  }
+
+  return {
+    kind: kind,
+    name: name,
+    arity: arity,
+    defaultArg: defaultArg,
+    body: body,
+    operator: kind === MacroKind.DeclareMathOperator,
+    starred: starred,
+    range: node.textRange(),
+  };
+}
+
+// every macro definition in a tree, in document order
+export function collectMacros(root: ParseTreeNode<TokenType, SyntaxKind>): MacroDefinition[] {
+  let result: MacroDefinition[] = [];
+  for (const node of SyntaxNode.root(root).descendants()) {
+    const def = analyzeDefinition(node);
+    if (def !== null) {
+      result.push(def);
+    }
+  }
+  return result;
+}
+
+// the signature the LaTeX parser should use for invocations of a macro
+export function macroSignature(def: MacroDefinition): CommandSignature {
+  let args = [];
+  for (let i = 0; i < def.arity; i++) {
+    const optional = i === 0 && def.defaultArg !== null;
+    args.push({ kind: optional ? ArgKind.Optional : ArgKind.Mandatory, mode: ArgMode.Text });
+  }
+  return { name: def.name, starred: false, args: args };
+}
+
+// makes the parser aware of the arguments of user-defined macros
+// (\providecommand does not override existing commands)
+export function registerMacros(registry: CommandRegistry, defs: MacroDefinition[]) {
+  for (const def of defs) {
+    if (def.kind === MacroKind.ProvideCommand && registry.get(def.name) !== null) {
+      continue;
+    }
+    registry.define(macroSignature(def));
+  }
+}
+
+// a lookup table of macros by name, where later definitions override earlier ones
+// (\providecommand does not override existing definitions)
+export function macroTable(defs: MacroDefinition[]): Map<string, MacroDefinition> {
+  let table: Map<string, MacroDefinition> = new Map();
+  for (const def of defs) {
+    if (def.kind === MacroKind.ProvideCommand && table.has(def.name)) {
+      continue;
+    }
+    table.set(def.name, def);
+  }
+  return table;
+}
@@ -1,11 +1,13 @@
-import { Lexer, Token} from "./lexer"
+import { Lexer, Token, lexUnknown } from "./lexer"
 import { lexCommand } from "./latex"
-import { Maybe, alphabetic, assert } from "./util"
-import { ParseTreeNode, Parser, ParseError, TokenOrNode, ASTNode, isToken } from "./parser"
+import { Maybe, TextRange, alphabetic, assert } from "./util"
+import { ParseTreeNode, Parser, TokenOrNode, ASTNode, astNode, isToken } from "./parser"
+import { SyntaxNode } from "./syntax"
+import { QueryLanguage } from "./query"
 
 // Lexing
 export enum TokenType {
-  LineBreak,
+  LineBreak, // \\, which separates rows (as in align)
   Whitespace,
   LeftCurly,
   RightCurly,
@@ -24,32 +26,25 @@ export enum TokenType {
   RightAngle,
   Underscore,
   Caret,
+  Exclamation,
+  Prime, // '
   Number, // sequence of digits
   Symbol, // single alphabet characters OR specific commands (such as \gamma or \mathbb{R})
   Command,
+  Unknown, // any character that could not be lexed otherwise
 }
 
-function lexSymbol(lexer: Lexer<TokenType>): Maybe<Token<TokenType>> {
+function lexSymbol(lexer: Lexer<TokenType>, type: TokenType): Maybe<Token<TokenType>> {
   let c = lexer.source[lexer.index]
   if (alphabetic(c)) {
-    let token = {
-      type: TokenType.Symbol,
-      tokenData: c,
-      source: lexer.source.slice(lexer.index, lexer.index + 1),
-      offset: lexer.offset,
-    } as Token<TokenType>;
-
-    lexer.index += 1
-    lexer.offset += 1
-
-    return token;
+    return lexer.emit(type, 1, c);
   }
   return null;
 }
 
 const lexFns = {
-  [TokenType.LineBreak]: /^\/\//,
-  [TokenType.Whitespace]: /^[^\S\r\n]+/,
+  [TokenType.LineBreak]: /^\\\\/,
+  [TokenType.Whitespace]: /^\s+/, // newlines are just whitespace in math mode
   [TokenType.LeftCurly]: /^\{/,
   [TokenType.RightCurly]: /^\}/,
   [TokenType.LeftBracket]: /^\[/,
@@ -67,13 +62,29 @@ const lexFns = {
   [TokenType.RightAngle]: /^\>/,
   [TokenType.Underscore]: /^\_/,
   [TokenType.Caret]: /^\^/,
+  [TokenType.Exclamation]: /^!/,
+  [TokenType.Prime]: /^'/,
   [TokenType.Number]: /^[0-9]+/,
   [TokenType.Symbol]: lexSymbol,
   [TokenType.Command]: lexCommand,
+  [TokenType.Unknown]: lexUnknown,
 }
 
 function isTrivia(type: TokenType) {
-  return [TokenType.LineBreak, TokenType.Whitespace].includes(type);
+  return type === TokenType.Whitespace;
+}
+
+// rows are separated by \\ and cells by &, which end an operand (so that the rows of
+// "ax + b \\ cx + d" aren't multiplied together)
+function isSeparator(type: TokenType) {
+  return type === TokenType.LineBreak || type === TokenType.Ampersand;
+}
+
+// spacing commands, which are ignored like whitespace (so a\,b is still a product)
+const SPACING_COMMANDS = [",", ":", ";", "!", " ", "quad", "qquad"];
+
+function isSpacing(token: Token<TokenType>) {
+  return token.type === TokenType.Command && SPACING_COMMANDS.includes(token.tokenData);
 }
 
 export class MathLexer extends Lexer<TokenType> {
@@ -104,30 +115,106 @@ export class MathLexer extends Lexer<TokenType> {
 export enum SyntaxKind {
   Root,
   BinOp,
+  UnaryOp, // a prefix operator and its operand
+  PostfixOp, // an operand and a postfix operator (which may take several tokens, as in ^{T})
   Grouping, // an expression surrounded by parentheses, brackets, or curly brackets
+  Abs, // an expression between pipes, such as |x - y|
+  ImplicitMul, // two operands next to each other, such as 2x
+  Apply, // a function and its argument, such as f(x) or \sin x
   Literal,
   Symbol,
-  Equal,
-  Frac,
+  Equal, // a chain of equalities, such as a = b = c
+  Relation, // a chain of other relations, such as 0 < x \le 1 (see RelationOp)
+  Frac, // \frac{a}{b}, and also \dfrac, etc.
+  Binom, // \binom{n}{k}
+  Sqrt, // \sqrt[n]{x}, with an optional index
+  Accent, // \hat{x}, \overline{x}, etc.
+  Font, // \mathbb{R}, \mathcal{A}, etc.
+  OperatorName, // \operatorname{rank}, whose argument is a name rather than an expression
+  BigOp, // \sum_{i=1}^{n} a_i, \int_0^1 f(x) dx, \lim_{x \to 0} f(x), etc.
+  Differential, // dx at the end of an integral
   Command, // a generic command (treated as a no-op for now)
   Expression, // essentially an OR of all the existing operations
+  Error, // unexpected tokens, skipped over during error recovery
+  Missing, // an empty placeholder for something that was expected but not found
 }
 
-// TODO: implicit multiplication for symbols next to each other
 export enum InfixOp {
   Plus,
   Minus,
-  Times, // *, cdot
-  Le, // <
-  Ge, // >
+  Times, // *, \cdot, \times
   Subscript, // _
   Superscript, // ^
-  In, // \in
-  Union, // \in
-  Intersection, // \in
+  Union, // \cup
+  Intersection, // \cap
+  PlusMinus, // \pm
+  MinusPlus, // \mp
   // TODO: set operations, boolean operations
 }
-// TODO: should we have support for chaining inequalities?
+
+// relations are not infix operators, but are parsed as a layer above them (see MathParser.relation)
+export enum RelationOp {
+  Equal, // =
+  NotEqual, // \neq, \ne
+  Less, // <, \lt
+  Greater, // >, \gt
+  LessEq, // \le, \leq
+  GreaterEq, // \ge, \geq
+  Approx, // \approx
+  Equiv, // \equiv
+  Sim, // \sim
+  Subset, // \subset
+  SubsetEq, // \subseteq
+  Superset, // \supset
+  SupersetEq, // \supseteq
+  In, // \in
+  NotIn, // \notin
+  Divides, // \mid
+  To, // \to, \rightarrow
+}
+
+const RELATION_COMMANDS: Map<string, RelationOp> = new Map([
+  ["neq", RelationOp.NotEqual],
+  ["ne", RelationOp.NotEqual],
+  ["lt", RelationOp.Less],
+  ["gt", RelationOp.Greater],
+  ["le", RelationOp.LessEq],
+  ["leq", RelationOp.LessEq],
+  ["ge", RelationOp.GreaterEq],
+  ["geq", RelationOp.GreaterEq],
+  ["approx", RelationOp.Approx],
+  ["equiv", RelationOp.Equiv],
+  ["sim", RelationOp.Sim],
+  ["subset", RelationOp.Subset],
+  ["subseteq", RelationOp.SubsetEq],
+  ["supset", RelationOp.Superset],
+  ["supseteq", RelationOp.SupersetEq],
+  ["in", RelationOp.In],
+  ["notin", RelationOp.NotIn],
+  ["mid", RelationOp.Divides],
+  ["to", RelationOp.To],
+  ["rightarrow", RelationOp.To],
+]);
+
+function tokenToRelationOp(token: Token<TokenType>): Maybe<RelationOp> {
+  switch (token.type) {
+    case TokenType.Eq: {
+      return RelationOp.Equal;
+    }
+    case TokenType.LeftAngle: {
+      return RelationOp.Less;
+    }
+    case TokenType.RightAngle: {
+      return RelationOp.Greater;
+    }
+    case TokenType.Command: {
+      return RELATION_COMMANDS.get(token.tokenData) ?? null;
+    }
+    default: {
+      return null;
+    }
+  }
+}
 
 
 function matchingBrace(type: TokenType) {
@@ -162,12 +249,6 @@ function tokenToInfixOp(token: Token<TokenType>): Maybe<InfixOp> {
     case TokenType.Asterick: {
       return InfixOp.Times;
     }
-    case TokenType.LeftAngle: {
-      return InfixOp.Le;
-    }
-    case TokenType.RightAngle: {
-      return InfixOp.Ge;
-    }
     case TokenType.Underscore: {
       return InfixOp.Subscript;
     }
@@ -176,8 +257,9 @@ function tokenToInfixOp(token: Token<TokenType>): Maybe<InfixOp> {
     }
     case TokenType.Command: {
       switch (token.tokenData) {
-        case "in": {
-          return InfixOp.In;
+        case "cdot":
+        case "times": {
+          return InfixOp.Times;
         }
         case "cup": {
           return InfixOp.Union;
@@ -185,6 +267,12 @@ function tokenToInfixOp(token: Token<TokenType>): Maybe<InfixOp> {
         case "cap": {
           return InfixOp.Intersection;
         }
+        case "pm": {
+          return InfixOp.PlusMinus;
+        }
+        case "mp": {
+          return InfixOp.MinusPlus;
+        }
         default: {
           return null;
         }
@@ -196,9 +284,84 @@ function tokenToInfixOp(token: Token<TokenType>): Maybe<InfixOp> {
   }
 }
 
-export enum UnaryOp {
+export enum PrefixOp {
   Minus,
-  // TODO: boolean not
+  Plus,
+  PlusMinus, // \pm
+  MinusPlus, // \mp
+  Not, // \neg, \lnot
+}
+
+function tokenToPrefixOp(token: Token<TokenType>): Maybe<PrefixOp> {
+  switch (token.type) {
+    case TokenType.Plus: {
+      return PrefixOp.Plus;
+    }
+    case TokenType.Minus: {
+      return PrefixOp.Minus;
+    }
+    case TokenType.Command: {
+      switch (token.tokenData) {
+        case "pm": {
+          return PrefixOp.PlusMinus;
+        }
+        case "mp": {
+          return PrefixOp.MinusPlus;
+        }
+        case "neg":
+        case "lnot": {
+          return PrefixOp.Not;
+        }
+        default: {
+          return null;
+        }
+      }
+    }
+    default: {
+      return null;
+    }
+  }
+}
+
+export enum PostfixOpKind {
+  Factorial, // !
+  Prime, // '
+  Transpose, // ^T, ^{T}, ^\top or ^\intercal
+}
+
+function isTransposeSymbol(token: Maybe<Token<TokenType>>): boolean {
+  if (token === null || token === undefined) {
+    return false;
+  }
+  return (token.type === TokenType.Symbol && token.tokenData === "T")
+    || (token.type === TokenType.Command && ["top", "intercal"].includes(token.tokenData));
+}
+
+// the postfix operator at the start of `tokens`, along with the number of tokens it takes
+function postfixAt(tokens: Token<TokenType>[]): Maybe<[PostfixOpKind, number]> {
+  if (tokens.length === 0) {
+    return null;
+  }
+  switch (tokens[0].type) {
+    case TokenType.Exclamation: {
+      return [PostfixOpKind.Factorial, 1];
+    }
+    case TokenType.Prime: {
+      return [PostfixOpKind.Prime, 1];
+    }
+    case TokenType.Caret: {
+      if (isTransposeSymbol(tokens[1])) {
+        return [PostfixOpKind.Transpose, 2];
+      }
+      if (tokens.length >= 4 && tokens[1].type === TokenType.LeftCurly && isTransposeSymbol(tokens[2]) && tokens[3].type === TokenType.RightCurly) {
+        return [PostfixOpKind.Transpose, 4];
+      }
+      return null;
+    }
+    default: {
+      return null;
+    }
+  }
 }
 
 // assigns a precedence to each infix operator, with support for left/right associativity
@@ -207,71 +370,293 @@ export const PRECEDENCE = {
   // leave some space for new more operators that might go in between
   [InfixOp.Union]: [78, 79],
   [InfixOp.Intersection]: [80, 81],
-  [InfixOp.Le]: [90, 91],
-  [InfixOp.Ge]: [90, 91],
   [InfixOp.Plus]: [100, 101],
   [InfixOp.Minus]: [100, 101],
+  [InfixOp.PlusMinus]: [100, 101],
+  [InfixOp.MinusPlus]: [100, 101],
   [InfixOp.Times]: [102, 103],
   [InfixOp.Superscript]: [104, 105],
   [InfixOp.Subscript]: [104, 105],
 }
 
+// prefix operators only have a right binding power: -x^2 is -(x^2), but -a * b is (-a) * b
+// (\neg applies to a whole relation instead, so \neg a < b is \neg (a < b))
+export const PREFIX_PRECEDENCE = {
+  [PrefixOp.Minus]: 103,
+  [PrefixOp.Plus]: 103,
+  [PrefixOp.PlusMinus]: 103,
+  [PrefixOp.MinusPlus]: 103,
+}
+
+// postfix operators only have a left binding power, which is that of a superscript (since primes
+// and transposes are superscripts), so a_n! is (a_n)! and -n! is -(n!)
+export const POSTFIX_PRECEDENCE = {
+  [PostfixOpKind.Factorial]: 104,
+  [PostfixOpKind.Prime]: 104,
+  [PostfixOpKind.Transpose]: 104,
+}
+
+// implicit multiplication binds like *, except before a function (see FUNCTIONS), so that
+// \sin x \cos x is (\sin x)(\cos x) rather than \sin (x \cos x)
+export const JUXTAPOSITION_PRECEDENCE = [102, 103];
+const JUXTAPOSITION_BEFORE_FUNCTION = 101;
+
+// function application binds tighter than anything else, so 2^f(x) is 2^(f(x)) and -f(x)^2 is
+// -((f(x))^2); the argument of a function without parentheses includes products, so \sin 2x is
+// \sin (2x), but \sin x + 1 is (\sin x) + 1
+export const APPLY_PRECEDENCE = 106;
+const FUNCTION_ARGUMENT_PRECEDENCE = 102;
+
+// standard functions, which are applied to the operand after them (with or without parentheses)
+export const FUNCTIONS = [
+  "sin", "cos", "tan", "cot", "sec", "csc",
+  "arcsin", "arccos", "arctan", "sinh", "cosh", "tanh", "coth",
+  "exp", "log", "ln", "lg", "det", "dim", "ker", "deg", "gcd", "hom", "arg", "Pr",
+];
+
+function isFunctionCommand(token: Token<TokenType>) {
+  return token.type === TokenType.Command && (FUNCTIONS.includes(token.tokenData) || token.tokenData === "operatorname");
+}
+
+// commands with arguments, along with the node they form and their arguments, in the style of
+// commands.ts: m is a mandatory argument, o is an optional argument in brackets, s is an optional
+// star, and t is a mandatory argument of text (kept as tokens) rather than an expression
+// (arguments without braces are a single operand, as in \frac12 or \hat x)
+export const MATH_COMMANDS: Map<string, [SyntaxKind, string]> = new Map([
+  ["frac", [SyntaxKind.Frac, "mm"]],
+  ["dfrac", [SyntaxKind.Frac, "mm"]],
+  ["tfrac", [SyntaxKind.Frac, "mm"]],
+  ["cfrac", [SyntaxKind.Frac, "mm"]],
+  ["binom", [SyntaxKind.Binom, "mm"]],
+  ["dbinom", [SyntaxKind.Binom, "mm"]],
+  ["tbinom", [SyntaxKind.Binom, "mm"]],
+  ["sqrt", [SyntaxKind.Sqrt, "om"]],
+  ...["hat", "widehat", "tilde", "widetilde", "bar", "overline", "underline", "vec", "overrightarrow", "dot", "ddot", "check", "breve"]
+    .map((name): [string, [SyntaxKind, string]] => [name, [SyntaxKind.Accent, "m"]]),
+  ...["mathbb", "mathcal", "mathfrak", "mathscr", "mathrm", "mathbf", "mathit", "mathsf", "mathtt", "boldsymbol"]
+    .map((name): [string, [SyntaxKind, string]] => [name, [SyntaxKind.Font, "m"]]),
+  ["operatorname", [SyntaxKind.OperatorName, "st"]],
+]);
+
+// unbraced arguments bind tighter than any operator
+const ARGUMENT_PRECEDENCE = 107;
+
+// big operators, which take limits (as a subscript and a superscript) and then a body
+export const BIG_OPERATORS = [
+  "sum", "prod", "coprod",
+  "bigcup", "bigcap", "bigsqcup", "biguplus", "bigoplus", "bigotimes", "bigodot", "bigvee", "bigwedge",
+  "lim", "limsup", "liminf", "max", "min", "sup", "inf",
+];
+
+// integrals are big operators whose body ends at a differential (such as dx), along with the number
+// of differentials they take
+export const INTEGRALS: Map<string, number> = new Map([
+  ["int", 1],
+  ["oint", 1],
+  ["iint", 2],
+  ["iiint", 3],
+]);
+
+function isBigOperator(token: Token<TokenType>) {
+  return token.type === TokenType.Command && (BIG_OPERATORS.includes(token.tokenData) || INTEGRALS.has(token.tokenData));
+}
+
+// commands that change where the limits of a big operator go
+const LIMITS_COMMANDS = ["limits", "nolimits"];
+
+// the body of a big operator (other than an integral) binds like a product, so
+// \sum_i a_i b_i + c is (\sum_i a_i b_i) + c
+const BIG_OPERATOR_BODY_PRECEDENCE = 102;
+
+// whether a token can be a bound variable, such as x or \theta
+function isVariable(token: Maybe<Token<TokenType>>): boolean {
+  if (token === null || token === undefined) {
+    return false;
+  }
+  if (token.type === TokenType.Command) {
+    return tokenToInfixOp(token) === null && tokenToPrefixOp(token) === null && tokenToRelationOp(token) === null
+      && !MATH_COMMANDS.has(token.tokenData) && !isBigOperator(token) && !isFunctionCommand(token);
+  }
+  return token.type === TokenType.Symbol;
+}
+
+// the number of tokens of a differential (d x, d\theta, \mathrm{d} x or \mathrm d x) at tokens[i], or 0
+function differentialLength(tokens: Token<TokenType>[], i: number): number {
+  const isD = (token: Maybe<Token<TokenType>>) => token !== undefined && token !== null && token.type === TokenType.Symbol && token.tokenData === "d";
+  if (isD(tokens[i]) && isVariable(tokens[i + 1])) {
+    return 2;
+  }
+  if (tokens[i].type !== TokenType.Command || tokens[i].tokenData !== "mathrm") {
+    return 0;
+  }
+  if (isD(tokens[i + 1]) && isVariable(tokens[i + 2])) {
+    return 3;
+  }
+  if (tokens[i + 1]?.type === TokenType.LeftCurly && isD(tokens[i + 2]) && tokens[i + 3]?.type === TokenType.RightCurly && isVariable(tokens[i + 4])) {
+    return 5;
+  }
+  return 0;
+}
+
 // Ambigious syntax?
-// ex: f(5x) treated as a function call or f * 5 * x?
-// Also, in aligns, need to treat newlines and ampersand as separators so something
-// like "ax + b\\ cx + d" does not get interpreted as ax + bcx + d
+// ex: f(5x) is a function call if f is known to be a function (see MathParser.functions), and
+// f * 5 * x otherwise
 
 // a basic recursive descent parser with pratt parsing for operator precedence
-// other precedence levels (like =) will probably be through the grammar
+// relations (like =) are a layer above the operators, see relation()
 export class MathParser extends Parser<TokenType, SyntaxKind> {
-  constructor(lexer: MathLexer) {
-    super(lexer);
+  functions: Set<string>; // symbols declared as functions (such as f in "let f be a function")
+  absDepth: number; // the number of enclosing |...| (in which a pipe closes rather than opens)
+  limit: number; // tokens from this index on are hidden (such as the differential of an integral while parsing its body)
+
+  constructor(lexer: MathLexer, functions: Set<string> = new Set()) {
+    super(lexer, TokenType, SyntaxKind.Error, SyntaxKind.Missing);
+    this.functions = functions;
+    this.absDepth = 0;
 
     // ignore whitespace for parsing purposes
-    this.tokens = this.tokens.filter((tok) => !isTrivia(tok.type));
+    this.tokens = this.tokens.filter((tok) => !isTrivia(tok.type) && !isSpacing(tok));
+    this.limit = this.tokens.length;
+  }
+
+  override hasNext() {
+    return this.idx < this.limit;
+  }
+
+  override peek(): Maybe<Token<TokenType>> {
+    return this.hasNext() ? this.tokens[this.idx] : null;
+  }
+
+  // the length of the differential at index i, which must end before the limit
+  differentialAt(i: number): number {
+    const length = differentialLength(this.tokens, i);
+    return i + length <= this.limit ? length : 0;
+  }
+
+  // if an operand is a function (which is applied to a parenthesized expression after it, so f(x)
+  // is an application but a(x) is a product), returns the function symbol or command
+  // (this includes f', f^{-1} and \sin^2)
+  functionBase(element: TokenOrNode<TokenType, SyntaxKind>): Maybe<Token<TokenType>> {
+    if (isToken(element)) {
+      const declared = element.type === TokenType.Symbol && this.functions.has(element.tokenData);
+      return declared || isFunctionCommand(element) ? element : null;
+    }
+    switch (element.kind) {
+      case SyntaxKind.OperatorName:
+        return element.children[0] as Token<TokenType>;
+      case SyntaxKind.PostfixOp:
+        return this.functionBase(element.children[0]);
+      case SyntaxKind.BinOp: {
+        const op = tokenToInfixOp(element.children[1] as Token<TokenType>);
+        return op === InfixOp.Superscript || op === InfixOp.Subscript ? this.functionBase(element.children[0]) : null;
+      }
+      default:
+        return null;
+    }
+  }
+
+  // whether an operand of its own starts at a token, making it a product with whatever is before it
+  startsOperand(token: Token<TokenType>): boolean {
+    switch (token.type) {
+      case TokenType.Number:
+      case TokenType.Symbol:
+      case TokenType.LeftCurly:
+      case TokenType.LeftParen:
+      case TokenType.LeftBracket:
+        return true;
+      case TokenType.Pipe:
+        return this.absDepth === 0;
+      case TokenType.Command:
+        return tokenToInfixOp(token) === null && tokenToPrefixOp(token) === null && tokenToRelationOp(token) === null;
+      default:
+        return false;
+    }
+  }
+
+  // returns Grouping(expression), where the current token is the opening delimiter
+  grouping(): ParseTreeNode<TokenType, SyntaxKind> {
+    const open = this.peek()!;
+    const absDepth = this.absDepth;
+    this.absDepth = 0; // (a pipe inside parentheses opens a new |...|)
+    this.builder.start_node(SyntaxKind.Grouping);
+    this.ignore();
+    this.builder.push(this.relation());
+    this.builder.end_node();
+    this.expectIgnore(matchingBrace(open.type));
+    this.absDepth = absDepth;
+    return this.builder.children.pop() as ParseTreeNode<TokenType, SyntaxKind>;
+  }
+
+  // returns Abs(expression), where the current token is the opening pipe
+  abs(): ParseTreeNode<TokenType, SyntaxKind> {
+    this.absDepth++;
+    this.builder.start_node(SyntaxKind.Abs);
+    this.ignore();
+    this.builder.push(this.relation());
+    this.builder.end_node();
+    this.expectIgnore(TokenType.Pipe);
+    this.absDepth--;
+    return this.builder.children.pop() as ParseTreeNode<TokenType, SyntaxKind>;
+  }
+
+  // wraps the current token in an error node, which stands in for the operand that was expected
+  unexpected(): ParseTreeNode<TokenType, SyntaxKind> {
+    this.errorToken(`Unexpected ${this.describeCurrent()}`);
+    return this.builder.children.pop() as ParseTreeNode<TokenType, SyntaxKind>;
   }
 
   // returns either Op(lhs, infix, rhs) or just a token
   expression(precedence: number): TokenOrNode<TokenType, SyntaxKind> {
+    if (!this.hasNext()) {
+      // such as an empty formula, or a trailing operator
+      this.missing("Expected expression");
+      return this.builder.children.pop()!;
+    }
     let lhs: TokenOrNode<TokenType, SyntaxKind> = this.peek()!;
-    const [row, col] = this.lexer.getSourceLocation(lhs.offset);
+    if (tokenToRelationOp(lhs) !== null) {
+      // such as = 2, which is still parsed as a relation
+      this.missing("Expected expression");
+      return this.builder.children.pop()!;
+    }
     switch (lhs.type) {
-      case TokenType.LineBreak:
       case TokenType.Whitespace: {
         this.consume();
         break;
       }
       case TokenType.RightCurly:
       case TokenType.RightParen:
-      case TokenType.RightBracket: {
-        throw new ParseError(`Unmatched grouping at ${row}:${col}`)
+      case TokenType.RightBracket:
+      case TokenType.LineBreak:
+      case TokenType.Ampersand: {
+        // such as (), the closing delimiter (or separator) is left for whatever is expecting it
+        this.missing("Expected expression");
+        return this.builder.children.pop()!;
       }
-      case TokenType.Eq:
       case TokenType.Plus:
-      case TokenType.Minus:
+      case TokenType.Minus: {
+        lhs = this.prefix(lhs, tokenToPrefixOp(lhs)!);
+        break;
+      }
+      case TokenType.Pipe: {
+        // an operand can't be empty, so this pipe opens (such as the inner one in ||x| - |y||)
+        lhs = this.abs();
+        break;
+      }
       case TokenType.Asterick:
-      case TokenType.LeftAngle:
-      case TokenType.RightAngle:
       case TokenType.Underscore:
-      case TokenType.Caret: {
-        // check current parsing precedence
-        throw new ParseError(`Unexpected punctuation at ${row}:${col}`)
-      }
-      case TokenType.Comma:
-      case TokenType.Pipe:
-      case TokenType.Ampersand:  {
-        throw new ParseError(`Unexpected punctuation at ${row}:${col}`)
+      case TokenType.Caret:
+      case TokenType.Exclamation:
+      case TokenType.Prime:
+      case TokenType.Comma: {
+        // treated as an (erroneous) operand, so that parsing can go on
+        lhs = this.unexpected();
+        break;
       }
       case TokenType.LeftCurly:
       case TokenType.LeftParen:
       case TokenType.LeftBracket: {
         // parse grouping, then try parsing an operator
-        this.builder.start_node(SyntaxKind.Grouping);
-        this.ignore();
-        this.builder.push(this.expression(0));
-        this.builder.end_node();
-        this.expectIgnore(matchingBrace(lhs.type));
-        lhs = this.builder.children.pop()!;
+        lhs = this.grouping();
         break;
       }
       case TokenType.Number: {
@@ -279,20 +664,42 @@ export class MathParser extends Parser<TokenType, SyntaxKind> {
         break;
       }
       case TokenType.Symbol: {
+        // a function call or a product with what comes after it is handled below
         this.ignore();
         break;
-        // TODO: if sees left paren, parse function call or multiplication?
-        // for now: parse as function call, if function not defined, then assume multiplication
-        // parse number/symbol, then try parsing an operator
       }
       case TokenType.Command: {
-        if (lhs.tokenData === "frac") {
-          // parse fraction
+        const prefixOp = tokenToPrefixOp(lhs);
+        if (prefixOp !== null) {
+          lhs = this.prefix(lhs, prefixOp);
+          break;
+        }
+        if (isBigOperator(lhs)) {
+          lhs = this.big_operator();
+          break;
         }
+        const command = MATH_COMMANDS.get(lhs.tokenData);
+        if (command !== undefined) {
+          lhs = this.command(command[0], command[1]);
+          break;
+        }
+        // other commands (such as \alpha or \infty) are operands like symbols
+        this.ignore();
+        break;
+      }
+      case TokenType.Unknown: {
+        // already reported by the lexer, treat it as an (erroneous) operand
+        this.builder.start_node(SyntaxKind.Error);
+        this.builder.push(lhs);
+        this.ignore();
+        this.builder.end_node();
+        lhs = this.builder.children.pop()!;
+        break;
+      }
+      default: {
+        lhs = this.unexpected();
         break;
       }
-      default:
-        throw new ParseError("Unimplemented")
     }
 
     // Left associativity comes from while loop
@@ -303,12 +710,57 @@ export class MathParser extends Parser<TokenType, SyntaxKind> {
         return lhs;
       }
 
+      // postfix operators are checked first, since ^T looks like a superscript
+      const postfix = postfixAt(this.tokens.slice(this.idx, Math.min(this.idx + 4, this.limit)));
+      if (postfix !== null) {
+        const [postfixOpKind, length] = postfix;
+        if (POSTFIX_PRECEDENCE[postfixOpKind] < precedence) {
+          return lhs;
+        }
+        this.builder.start_node(SyntaxKind.PostfixOp);
+        this.builder.push(lhs);
+        for (let i = 0; i < length; i++) {
+          this.builder.push(this.peek()!);
+          this.ignore();
+        }
+        this.builder.end_node();
+        lhs = this.builder.children.pop()!;
+        continue;
+      }
+
       const infixOp = tokenToInfixOp(infix);
       if (infixOp === null) {
-        break;
+        if (!this.startsOperand(infix)) {
+          break;
+        }
+
+        // function application, with parentheses (or without, for standard functions like \sin)
+        const base = this.functionBase(lhs);
+        if (base !== null && (infix.type === TokenType.LeftParen || base.type === TokenType.Command)) {
+          if (APPLY_PRECEDENCE < precedence) {
+            return lhs;
+          }
+          this.builder.start_node(SyntaxKind.Apply);
+          this.builder.push(lhs);
+          this.builder.push(infix.type === TokenType.LeftParen ? this.grouping() : this.expression(FUNCTION_ARGUMENT_PRECEDENCE));
+          this.builder.end_node();
+          lhs = this.builder.children.pop()!;
+          continue;
+        }
+
+        // implicit multiplication
+        const leftPrec = isFunctionCommand(infix) ? JUXTAPOSITION_BEFORE_FUNCTION : JUXTAPOSITION_PRECEDENCE[0];
+        if (leftPrec < precedence) {
+          return lhs;
+        }
+        this.builder.start_node(SyntaxKind.ImplicitMul);
+        this.builder.push(lhs);
+        this.builder.push(this.expression(JUXTAPOSITION_PRECEDENCE[1]));
+        this.builder.end_node();
+        lhs = this.builder.children.pop()!;
+        continue;
       }
 
-      // TODO: unary expressions (prefix precedence)
       const [leftPrec, rightPrec] = PRECEDENCE[infixOp];
       if (leftPrec < precedence) {
         return lhs;
@@ -332,16 +784,293 @@ export class MathParser extends Parser<TokenType, SyntaxKind> {
     return lhs;
   }
 
-  // for now, parses a single expression
+  // returns Kind(command, ...args), where the current token is the command (see MATH_COMMANDS)
+  command(kind: SyntaxKind, spec: string): ParseTreeNode<TokenType, SyntaxKind> {
+    this.builder.start_node(kind);
+    this.consume();
+    for (const arg of spec) {
+      switch (arg) {
+        case "s": {
+          if (this.peek()?.type === TokenType.Asterick) {
+            this.consume();
+          }
+          break;
+        }
+        case "o": {
+          if (this.peek()?.type === TokenType.LeftBracket) {
+            this.ignore();
+            this.builder.push(this.argument(TokenType.RightBracket));
+          }
+          break;
+        }
+        case "m": {
+          this.builder.push(this.mandatory_argument());
+          break;
+        }
+        case "t": {
+          this.text_argument();
+          break;
+        }
+      }
+    }
+    this.builder.end_node();
+    return this.builder.children.pop() as ParseTreeNode<TokenType, SyntaxKind>;
+  }
+
+  // a braced argument, or a single operand (which is also how subscripts and superscripts work)
+  mandatory_argument(): TokenOrNode<TokenType, SyntaxKind> {
+    const next = this.peek();
+    if (next?.type === TokenType.LeftCurly) {
+      this.ignore();
+      return this.argument(TokenType.RightCurly);
+    }
+    if (next !== null && this.startsOperand(next)) {
+      this.splitDigit();
+      return this.expression(ARGUMENT_PRECEDENCE);
+    }
+    this.missing("Expected argument");
+    return this.builder.children.pop()!;
+  }
+
+  // returns BigOp(command, _, lower, ^, upper, body, differentials...), where the current token is
+  // the command (the limits and differentials are optional)
+  // the syntax data is the range of the body, since the closing delimiters of groupings at the end
+  // of the body aren't kept in the tree
+  big_operator(): ParseTreeNode<TokenType, SyntaxKind> {
+    const differentials = INTEGRALS.get(this.peek()!.tokenData) ?? 0;
+    this.builder.start_node(SyntaxKind.BigOp);
+    this.consume();
+
+    // limits, in either order
+    while (this.hasNext()) {
+      const token = this.peek()!;
+      if (token.type === TokenType.Command && LIMITS_COMMANDS.includes(token.tokenData)) {
+        this.consume();
+      } else if (token.type === TokenType.Underscore || token.type === TokenType.Caret) {
+        this.consume();
+        this.builder.push(this.mandatory_argument());
+      } else {
+        break;
+      }
+    }
+
+    // the body of an integral is everything up to its differential, which is parsed on its own
+    const end = differentials > 0 ? this.findDifferential() : null;
+    const hidden = end === null ? 0 : this.limit - end;
+    this.limit -= hidden;
+    const next = this.peek();
+    const bodyStart = this.idx;
+    let body: TextRange = { start: this.currentRange().start, end: this.currentRange().start };
+    if (next !== null && (this.startsOperand(next) || tokenToPrefixOp(next) !== null)) {
+      this.builder.push(this.expression(end === null ? BIG_OPERATOR_BODY_PRECEDENCE : 0));
+      if (this.idx > bodyStart) {
+        body = { start: this.tokens[bodyStart].range.start, end: this.tokens[this.idx - 1].range.end };
+      }
+    } else if (end === null) {
+      // (an integral may have an empty body, as in \int dx)
+      this.missing("Expected expression");
+    }
+    if (end !== null) {
+      // the differential is left alone if the body couldn't be parsed up to it
+      const complete = !this.hasNext();
+      this.limit += hidden;
+      for (let i = 0; complete && i < differentials && this.hasNext(); i++) {
+        const length = this.differentialAt(this.idx);
+        if (length === 0) {
+          break;
+        }
+        this.builder.start_node(SyntaxKind.Differential);
+        for (let j = 0; j < length; j++) {
+          this.consume();
+        }
+        this.builder.end_node();
+      }
+    }
+
+    this.builder.end_node();
+    const result = this.builder.children.pop() as ParseTreeNode<TokenType, SyntaxKind>;
+    result.syntaxData = body;
+    return result;
+  }
+
+  // the index of the differential that ends the body of an integral starting at the current token,
+  // or null if there is none (differentials of integrals inside the body are skipped, so the
+  // differential of \int \int f dx dy is dy)
+  findDifferential(): Maybe<number> {
+    let depth = 0;
+    let pending = 0; // differentials that belong to integrals inside the body
+    for (let i = this.idx; i < this.limit; i++) {
+      const token = this.tokens[i];
+      if ([TokenType.LeftCurly, TokenType.LeftParen, TokenType.LeftBracket].includes(token.type)) {
+        depth++;
+      } else if ([TokenType.RightCurly, TokenType.RightParen, TokenType.RightBracket].includes(token.type)) {
+        depth--;
+        if (depth < 0) {
+          return null;
+        }
+      } else if (depth === 0) {
+        if (tokenToRelationOp(token) !== null) {
+          return null;
+        }
+        if (token.type === TokenType.Command && INTEGRALS.has(token.tokenData)) {
+          pending += INTEGRALS.get(token.tokenData)!;
+          continue;
+        }
+        const length = this.differentialAt(i);
+        if (length > 0) {
+          if (pending === 0) {
+            return i;
+          }
+          pending--;
+          i += length - 1;
+        }
+      }
+    }
+    return null;
+  }
+
+  // TeX takes a single digit as an unbraced argument, so \frac12 is 1/2 (but the lexer reads 12
+  // as one number), so the current number token is split after its first digit
+  splitDigit() {
+    const token = this.peek()!;
+    if (token.type !== TokenType.Number || token.source.length < 2) {
+      return;
+    }
+    const start = token.range.start;
+    // (tokens expanded from a macro have the range of the whole invocation, which isn't split)
+    const expanded = token.range.end - start !== token.source.length;
+    const first: Token<TokenType> = { ...token, source: token.source[0], range: expanded ? token.range : { start: start, end: start + 1 } };
+    const rest: Token<TokenType> = expanded ? { ...token, source: token.source.slice(1) } : { ...token, source: token.source.slice(1), offset: start + 1, range: { start: start + 1, end: token.range.end } };
+    this.tokens.splice(this.idx, 1, first, rest);
+    this.limit++;
+  }
+
+  // the expression in a delimited argument (after the opening delimiter), up to `close`
+  argument(close: TokenType): TokenOrNode<TokenType, SyntaxKind> {
+    let result: TokenOrNode<TokenType, SyntaxKind>;
+    if (this.peek()?.type === close) {
+      this.missing("Expected expression");
+      result = this.builder.children.pop()!;
+    } else {
+      result = this.relation();
+    }
+    this.expectIgnore(close);
+    return result;
+  }
+
+  // a braced argument of text, whose tokens (including the braces) are kept as they are
+  text_argument() {
+    if (this.peek()?.type !== TokenType.LeftCurly) {
+      this.missing("Expected argument");
+      return;
+    }
+    let depth = 0;
+    do {
+      const type = this.peek()!.type;
+      if (type === TokenType.LeftCurly) {
+        depth++;
+      } else if (type === TokenType.RightCurly) {
+        depth--;
+      }
+      this.consume();
+    } while (depth > 0 && this.hasNext());
+    if (depth > 0) {
+      this.missing(`Expected ${this.describeType(TokenType.RightCurly)}, found end of input instead`, TokenType.RightCurly);
+    }
+  }
+
+  // returns Op(prefix, operand), where the operand binds as tightly as the operator allows
+  prefix(op: Token<TokenType>, prefixOp: PrefixOp): ParseTreeNode<TokenType, SyntaxKind> {
+    this.builder.start_node(SyntaxKind.UnaryOp);
+    this.builder.push(op);
+    this.ignore(); // skip prefix token
+    this.builder.push(prefixOp === PrefixOp.Not ? this.relation() : this.expression(PREFIX_PRECEDENCE[prefixOp]));
+    this.builder.end_node();
+    return this.builder.children.pop() as ParseTreeNode<TokenType, SyntaxKind>;
+  }
+
+  // returns Relation(expr, rel, expr, rel, expr, ...) for a chain of relations such as 0 < x \le 1
+  // (or Equal, if the relations are all =), or just the expression if there are no relations
+  relation(): TokenOrNode<TokenType, SyntaxKind> {
+    let children: TokenOrNode<TokenType, SyntaxKind>[] = [];
+    if (this.atAlignment()) {
+      // such as the second row of a &= b \\ &= c, which continues the relation above it (so its left
+      // side is an empty Missing node, but not an error)
+      this.ignore();
+      this.builder.start_node(SyntaxKind.Missing);
+      this.builder.end_node();
+      children.push(this.builder.children.pop()!);
+    } else {
+      children.push(this.expression(0));
+    }
+    let kind = SyntaxKind.Equal;
+    while (this.hasNext()) {
+      if (this.atAlignment()) {
+        this.ignore();
+      }
+      const rel = this.peek()!;
+      const relationOp = tokenToRelationOp(rel);
+      if (relationOp === null) {
+        break;
+      }
+      if (relationOp !== RelationOp.Equal) {
+        kind = SyntaxKind.Relation;
+      }
+      children.push(rel);
+      this.ignore(); // skip relation token
+      children.push(this.expression(0));
+    }
+    if (children.length === 1) {
+      return children[0];
+    }
+
+    this.builder.start_node(kind);
+    for (const child of children) {
+      this.builder.push(child);
+    }
+    this.builder.end_node();
+    return this.builder.children.pop()!;
+  }
+
+  // whether the current token is an & right before a relation, which is an alignment point (as in
+  // a &= b) rather than a separator
+  atAlignment(): boolean {
+    return this.peek()?.type === TokenType.Ampersand && this.idx + 1 < this.limit && tokenToRelationOp(this.tokens[this.idx + 1]) !== null;
+  }
+
+  // parses a relation (or expression) for each cell, with the separators between them kept as
+  // tokens (cells may be empty, as after a trailing \\)
   parse(): ParseTreeNode<TokenType, SyntaxKind> {
     this.builder.start_node(SyntaxKind.Root);
-    const expr = this.expression(0);
-    this.builder.push(expr);
+    const startsCell = () => !isSeparator(this.peek()!.type) || this.atAlignment();
+    if (!this.hasNext() || startsCell()) {
+      this.builder.push(this.relation());
+    }
+    while (this.hasNext() && !startsCell()) {
+      this.consume();
+      if (this.hasNext() && startsCell()) {
+        this.builder.push(this.relation());
+      }
+    }
+    if (this.hasNext()) {
+      // tokens that can't continue the expression (such as a closing delimiter)
+      this.error(`Expected end of expression, found ${this.describeCurrent()} instead`);
+      this.builder.start_node(SyntaxKind.Error);
+      while (this.hasNext()) {
+        this.consume();
+      }
+      this.builder.end_node();
+    }
     this.builder.end_node();
     return this.builder.children[0] as ParseTreeNode<TokenType, SyntaxKind>;
   }
 }
 
+// the base class of the wrappers for nodes of the given kinds
+function mathNode<K extends SyntaxKind>(...kinds: K[]) {
+  return astNode<TokenType, SyntaxKind, K>(kinds);
+}
+
 export class Literal implements ASTNode<TokenType, SyntaxKind> {
   syntax: Token<TokenType>;
   type: SyntaxKind.Literal;
@@ -370,16 +1099,7 @@ export class Symbol implements ASTNode<TokenType, SyntaxKind> {
   }
 }
 
-export class BinOp implements ASTNode<TokenType, SyntaxKind> {
-  syntax: ParseTreeNode<TokenType, SyntaxKind>;
-  type: SyntaxKind.BinOp;
-
-  constructor(syntax: ParseTreeNode<TokenType, SyntaxKind>) {
-    assert(syntax !== null);
-    assert(syntax.kind === SyntaxKind.BinOp)
-    this.syntax = syntax;
-  }
-
+export class BinOp extends mathNode(SyntaxKind.BinOp) {
   static into(syntax: TokenOrNode<TokenType, SyntaxKind>) {
     if (isToken(syntax)) {
       return null;
@@ -396,42 +1116,427 @@ export class BinOp implements ASTNode<TokenType, SyntaxKind> {
     return tokenToInfixOp(this.syntax.children[1] as Token<TokenType>);
   }
 
-  lhs() {
-    // try into number
-    if (isToken(this.syntax.children[0]) && this.syntax.children[0].type === TokenType.Number) {
-      return new Literal(this.syntax.children[0]);
+  lhs(): Maybe<Mathmode> {
+    return cast(this.syntax.children[0]);
+  }
+
+  rhs(): Maybe<Mathmode> {
+    return cast(this.syntax.children[2]);
+  }
+}
+
+export class UnaryOp extends mathNode(SyntaxKind.UnaryOp) {
+  static into(syntax: TokenOrNode<TokenType, SyntaxKind>) {
+    if (isToken(syntax)) {
+      return null;
     }
-    // try into symbol
-    if (isToken(this.syntax.children[0]) && this.syntax.children[0].type === TokenType.Symbol) {
-      return new Symbol(this.syntax.children[0]);
+    if (syntax !== null && syntax.kind === SyntaxKind.UnaryOp) {
+      if (syntax.children.length === 2 && isToken(syntax.children[0]) && tokenToPrefixOp(syntax.children[0]) !== null) {
+        return new UnaryOp(syntax);
+      }
+    }
+    return null;
+  }
+
+  op() {
+    return tokenToPrefixOp(this.syntax.children[0] as Token<TokenType>);
+  }
+
+  operand(): Maybe<Mathmode> {
+    return cast(this.syntax.children[1]);
+  }
+}
+
+export class PostfixOp extends mathNode(SyntaxKind.PostfixOp) {
+  static into(syntax: TokenOrNode<TokenType, SyntaxKind>) {
+    if (isToken(syntax)) {
+      return null;
     }
-    // try into binop
-    const result = BinOp.into(this.syntax.children[0]);
-    if (result !== null) {
-      return result;
+    if (syntax !== null && syntax.kind === SyntaxKind.PostfixOp) {
+      if (syntax.children.length >= 2 && syntax.children.slice(1).every(isToken) && postfixAt(syntax.children.slice(1) as Token<TokenType>[]) !== null) {
+        return new PostfixOp(syntax);
+      }
     }
     return null;
   }
 
-  rhs() {
-    // try into number
-    if (isToken(this.syntax.children[2]) && this.syntax.children[2].type === TokenType.Number) {
-      return new Literal(this.syntax.children[2]);
+  op() {
+    const postfix = postfixAt(this.syntax.children.slice(1) as Token<TokenType>[]);
+    return postfix === null ? null : postfix[0];
+  }
+
+  operand(): Maybe<Mathmode> {
+    return cast(this.syntax.children[0]);
+  }
+}
+
+// a chain of relations, such as 0 < x \le y < 1 (which has three relations and four operands)
+export class Relation extends mathNode(SyntaxKind.Equal, SyntaxKind.Relation) {
+  // whether every relation is =
+  isEquality(): boolean {
+    return this.syntax.kind === SyntaxKind.Equal;
+  }
+
+  operands(): Maybe<Mathmode>[] {
+    return this.syntax.children.filter((_, i) => i % 2 === 0).map(cast);
+  }
+
+  ops(): Maybe<RelationOp>[] {
+    return this.syntax.children.filter((_, i) => i % 2 === 1).map((child) => isToken(child) ? tokenToRelationOp(child) : null);
+  }
+
+  // each relation along with the operands on either side, such as 0 < x, x \le y and y < 1
+  comparisons(): [Maybe<Mathmode>, Maybe<RelationOp>, Maybe<Mathmode>][] {
+    const operands = this.operands();
+    return this.ops().map((op, i) => [operands[i], op, operands[i + 1]]);
+  }
+}
+
+// two operands next to each other, such as 2x or a(b + c)
+export class ImplicitMul extends mathNode(SyntaxKind.ImplicitMul) {
+  lhs(): Maybe<Mathmode> {
+    return cast(this.syntax.children[0]);
+  }
+
+  rhs(): Maybe<Mathmode> {
+    return cast(this.syntax.children[1]);
+  }
+}
+
+// a function applied to an argument, such as f(x), \sin x or \log_2 n
+export class Apply extends mathNode(SyntaxKind.Apply) {
+  // the function symbol or command (such as \sin), even if it has a superscript or primes
+  name(): Maybe<string> {
+    let element = this.syntax.children[0];
+    while (!isToken(element) && element.kind !== SyntaxKind.OperatorName && element.children.length > 0) {
+      element = element.children[0];
+    }
+    if (!isToken(element)) {
+      return element.kind === SyntaxKind.OperatorName ? new OperatorName(element).name() : null;
     }
-    // try into symbol
-    if (isToken(this.syntax.children[2]) && this.syntax.children[2].type === TokenType.Symbol) {
-      return new Symbol(this.syntax.children[2]);
+    return element.tokenData;
+  }
+
+  function(): Maybe<Mathmode> {
+    return cast(this.syntax.children[0]);
+  }
+
+  // a Grouping if the argument is in parentheses
+  argument(): Maybe<Mathmode> {
+    return cast(this.syntax.children[1]);
+  }
+}
+
+// the parts of a big operator node, by child index
+interface BigOpParts {
+  lower: Maybe<number>,
+  upper: Maybe<number>,
+  body: Maybe<number>,
+  differentials: number[],
+}
+
+function bigOpParts(syntax: ParseTreeNode<TokenType, SyntaxKind>): BigOpParts {
+  let parts: BigOpParts = { lower: null, upper: null, body: null, differentials: [] };
+  const children = syntax.children;
+  for (let i = 1; i < children.length; i++) {
+    const child = children[i];
+    if (isToken(child)) {
+      if (child.type === TokenType.Underscore || child.type === TokenType.Caret) {
+        const limit = child.type === TokenType.Underscore ? "lower" : "upper";
+        parts[limit] = parts[limit] ?? i + 1;
+        i++; // skip the limit itself
+        continue;
+      }
+      if (child.type === TokenType.Command && LIMITS_COMMANDS.includes(child.tokenData)) {
+        continue;
+      }
     }
-    // try into binop
-    const result = BinOp.into(this.syntax.children[2]);
-    if (result !== null) {
-      return result;
+    if (!isToken(child) && child.kind === SyntaxKind.Differential) {
+      parts.differentials.push(i);
+    } else {
+      parts.body = i;
     }
+  }
+  return parts;
+}
+
+// the variable introduced by a lower limit, such as i in i=1, x in x \to 0 or x \in X, or
+// i in 1 \le i \le n (and also x on its own, as in \max_x, unless `relationOnly` is set)
+function limitVariable(limit: TokenOrNode<TokenType, SyntaxKind>, relationOnly: boolean): Maybe<Token<TokenType>> {
+  if (isToken(limit)) {
+    return !relationOnly && isVariable(limit) ? limit : null;
+  }
+  if (limit.kind !== SyntaxKind.Equal && limit.kind !== SyntaxKind.Relation) {
     return null;
   }
+  const operands = limit.children.filter((_, i) => i % 2 === 0);
+  return (operands.find((operand) => isToken(operand) && isVariable(operand)) ?? null) as Maybe<Token<TokenType>>;
+}
+
+// a big operator, such as \sum_{i=1}^{n} a_i or \int_0^1 f(x) dx, which binds its variables in its body
+export class BigOp extends mathNode(SyntaxKind.BigOp) {
+  // such as sum or int
+  operator(): string {
+    return commandName(this.syntax);
+  }
+
+  isIntegral(): boolean {
+    return INTEGRALS.has(this.operator());
+  }
+
+  lower(): Maybe<Mathmode> {
+    const i = bigOpParts(this.syntax).lower;
+    return i === null || i >= this.syntax.children.length ? null : cast(this.syntax.children[i]);
+  }
+
+  upper(): Maybe<Mathmode> {
+    const i = bigOpParts(this.syntax).upper;
+    return i === null || i >= this.syntax.children.length ? null : cast(this.syntax.children[i]);
+  }
+
+  body(): Maybe<Mathmode> {
+    const i = bigOpParts(this.syntax).body;
+    return i === null ? null : cast(this.syntax.children[i]);
+  }
+
+  // the extent of the body (which is empty if there is no body)
+  bodyRange(): TextRange {
+    return this.syntax.syntaxData;
+  }
+
+  // the bound variables: those of the differentials of an integral (such as x in dx), or the one
+  // introduced by the lower limit (such as i in \sum_{i=1})
+  variables(): Token<TokenType>[] {
+    const parts = bigOpParts(this.syntax);
+    const differentials = parts.differentials.map((i) => {
+      const differential = this.syntax.children[i] as ParseTreeNode<TokenType, SyntaxKind>;
+      return differential.children[differential.children.length - 1] as Token<TokenType>;
+    });
+    if (differentials.length > 0) {
+      return differentials;
+    }
+    if (parts.lower === null || parts.lower >= this.syntax.children.length) {
+      return [];
+    }
+    const variable = limitVariable(this.syntax.children[parts.lower], this.isIntegral());
+    return variable === null ? [] : [variable];
+  }
+}
+
+// a variable bound by a big operator, such as i in \sum_{i=1}^{n} a_i
+export interface Binding {
+  name: string, // such as i, or theta for \theta
+  binder: TextRange, // where the variable is introduced (in the lower limit or the differential)
+  scope: TextRange, // the body of the operator, which is the only place the variable is bound
+}
+
+// every variable bound in a tree, from the outermost operator to the innermost
+export function bindings(root: ParseTreeNode<TokenType, SyntaxKind>): Binding[] {
+  let result: Binding[] = [];
+  for (const node of SyntaxNode.root(root).descendants()) {
+    if (node.kind() !== SyntaxKind.BigOp) {
+      continue;
+    }
+    const op = new BigOp(node.green);
+    for (const variable of op.variables()) {
+      result.push({ name: variable.tokenData, binder: variable.range, scope: op.bodyRange() });
+    }
+  }
+  return result;
+}
+
+// the arguments of a command node (without the command itself and its star)
+function commandArgs(syntax: ParseTreeNode<TokenType, SyntaxKind>): TokenOrNode<TokenType, SyntaxKind>[] {
+  return syntax.children.slice(1).filter((child) => !(isToken(child) && child.type === TokenType.Asterick));
+}
+
+function commandName(syntax: ParseTreeNode<TokenType, SyntaxKind>): string {
+  return (syntax.children[0] as Token<TokenType>).tokenData;
+}
+
+export class Frac extends mathNode(SyntaxKind.Frac) {
+  // such as frac or dfrac
+  command(): string {
+    return commandName(this.syntax);
+  }
+
+  numerator(): Maybe<Mathmode> {
+    return cast(commandArgs(this.syntax)[0]);
+  }
+
+  denominator(): Maybe<Mathmode> {
+    return cast(commandArgs(this.syntax)[1]);
+  }
+}
+
+export class Binom extends mathNode(SyntaxKind.Binom) {
+  command(): string {
+    return commandName(this.syntax);
+  }
+
+  // n in \binom{n}{k}
+  top(): Maybe<Mathmode> {
+    return cast(commandArgs(this.syntax)[0]);
+  }
+
+  // k in \binom{n}{k}
+  bottom(): Maybe<Mathmode> {
+    return cast(commandArgs(this.syntax)[1]);
+  }
+}
+
+export class Sqrt extends mathNode(SyntaxKind.Sqrt) {
+  // n in \sqrt[n]{x}, or null for a square root
+  index(): Maybe<Mathmode> {
+    const args = commandArgs(this.syntax);
+    return args.length === 2 ? cast(args[0]) : null;
+  }
+
+  radicand(): Maybe<Mathmode> {
+    const args = commandArgs(this.syntax);
+    return cast(args[args.length - 1]);
+  }
+}
+
+export class Accent extends mathNode(SyntaxKind.Accent) {
+  // such as hat or overline
+  accent(): string {
+    return commandName(this.syntax);
+  }
+
+  base(): Maybe<Mathmode> {
+    return cast(commandArgs(this.syntax)[0]);
+  }
+}
+
+export class Font extends mathNode(SyntaxKind.Font) {
+  // such as mathbb
+  font(): string {
+    return commandName(this.syntax);
+  }
+
+  body(): Maybe<Mathmode> {
+    return cast(commandArgs(this.syntax)[0]);
+  }
+}
+
+export class OperatorName extends mathNode(SyntaxKind.OperatorName) {
+  // the text of the argument, without whitespace (such as rank in \operatorname{rank})
+  name(): string {
+    const tokens = commandArgs(this.syntax).filter(isToken);
+    return tokens.slice(1, tokens[tokens.length - 1]?.type === TokenType.RightCurly ? -1 : undefined).map((token) => token.source).join("");
+  }
+
+  // \operatorname* puts limits above and below, like \lim
+  starred(): boolean {
+    return this.syntax.children.some((child) => isToken(child) && child.type === TokenType.Asterick);
+  }
+}
+
+// an expression in parentheses, brackets or braces (the delimiters themselves are not kept)
+export class Grouping extends mathNode(SyntaxKind.Grouping) {
+  inner(): Maybe<Mathmode> {
+    return cast(this.syntax.children[0]);
+  }
+}
+
+// the absolute value of an expression, written |x| (the pipes themselves are not kept)
+export class Abs extends mathNode(SyntaxKind.Abs) {
+  inner(): Maybe<Mathmode> {
+    return cast(this.syntax.children[0]);
+  }
 }
 
-export type Mathmode = Literal | Symbol | BinOp
+export type Mathmode = Literal | Symbol | BinOp | Relation | BigOp | UnaryOp | PostfixOp | ImplicitMul | Apply | Frac | Binom | Sqrt | Accent | Font | OperatorName | Grouping | Abs
+
+// wraps a token or node in the class for its kind, or returns null if there is none (yet)
+export function cast(element: TokenOrNode<TokenType, SyntaxKind>): Maybe<Mathmode> {
+  if (isToken(element)) {
+    switch (element.type) {
+      case TokenType.Number:
+        return new Literal(element);
+      case TokenType.Symbol:
+      case TokenType.Command: // such as \alpha or \sin
+        return new Symbol(element);
+      default:
+        return null;
+    }
+  }
+  switch (element.kind) {
+    case SyntaxKind.BinOp:
+      return BinOp.into(element);
+    case SyntaxKind.UnaryOp:
+      return UnaryOp.into(element);
+    case SyntaxKind.PostfixOp:
+      return PostfixOp.into(element);
+    case SyntaxKind.Equal:
+    case SyntaxKind.Relation:
+      return new Relation(element);
+    case SyntaxKind.BigOp:
+      return new BigOp(element);
+    case SyntaxKind.ImplicitMul:
+      return new ImplicitMul(element);
+    case SyntaxKind.Apply:
+      return new Apply(element);
+    case SyntaxKind.Frac:
+      return new Frac(element);
+    case SyntaxKind.Binom:
+      return new Binom(element);
+    case SyntaxKind.Sqrt:
+      return new Sqrt(element);
+    case SyntaxKind.Accent:
+      return new Accent(element);
+    case SyntaxKind.Font:
+      return new Font(element);
+    case SyntaxKind.OperatorName:
+      return new OperatorName(element);
+    case SyntaxKind.Grouping:
+      return new Grouping(element);
+    case SyntaxKind.Abs:
+      return new Abs(element);
+    default:
+      return null;
+  }
+}
+
+// Queries
+// (see query.ts)
+
+export const MATH_QUERY: QueryLanguage<TokenType, SyntaxKind> = {
+  kinds: SyntaxKind,
+  attribute: (node: SyntaxNode<TokenType, SyntaxKind>, name: string): Maybe<string> => {
+    switch (name) {
+      case "op": {
+        const binop = BinOp.into(node.green);
+        const unary = UnaryOp.into(node.green);
+        const postfix = PostfixOp.into(node.green);
+        if (binop !== null) {
+          const op = binop.op();
+          return op === null ? null : InfixOp[op];
+        }
+        if (unary !== null) {
+          const op = unary.op();
+          return op === null ? null : PrefixOp[op];
+        }
+        if (postfix !== null) {
+          const op = postfix.op();
+          return op === null ? null : PostfixOpKind[op];
+        }
+        if (node.kind() === SyntaxKind.Equal || node.kind() === SyntaxKind.Relation) {
+          // (only for relations that are all the same, such as a = b = c)
+          const ops = new Relation(node.green).ops();
+          return ops.length > 0 && ops[0] !== null && ops.every((op) => op === ops[0]) ? RelationOp[ops[0]] : null;
+        }
+        return null;
+      }
+      case "text": {
+        return node.text();
+      }
+      default:
+        return null;
+    }
+  },
+};
 
 // I'm starting to think that I should have done this project in OCaml...
 // TODO: implement algebraic data types in typescript so I don't have to suffer as much
@@ -0,0 +1,167 @@
+// The outline of a document: its sectioning commands, with theorem-like environments inside them
+import { ParseTreeNode } from "./parser"
+import { SyntaxNode } from "./syntax"
+import { TokenType, SyntaxKind, Command, Environment } from "./latex"
+import { Project } from "./project"
+import { Maybe, TextRange } from "./util"
+
+export enum OutlineKind {
+  Section, // \part, \chapter, \section, etc.
+  Theorem, // a theorem-like environment
+}
+
+// the nesting level of each sectioning command (as in LaTeX's secnumdepth)
+export const SECTION_LEVELS: Map<string, number> = new Map([
+  ["part", -1],
+  ["chapter", 0],
+  ["section", 1],
+  ["subsection", 2],
+  ["subsubsection", 3],
+  ["paragraph", 4],
+  ["subparagraph", 5],
+]);
+
+// theorem-like environments that are usually available (from amsthm or a document class),
+// along with the title they are displayed with
+export const THEOREM_ENVIRONMENTS: Map<string, string> = new Map([
+  ["theorem", "Theorem"],
+  ["lemma", "Lemma"],
+  ["proposition", "Proposition"],
+  ["corollary", "Corollary"],
+  ["conjecture", "Conjecture"],
+  ["claim", "Claim"],
+  ["definition", "Definition"],
+  ["example", "Example"],
+  ["remark", "Remark"],
+  ["proof", "Proof"],
+]);
+
+export interface OutlineEntry {
+  kind: OutlineKind,
+  name: string, // the command (such as subsection) or environment (such as lemma)
+  level: number, // for sections, see SECTION_LEVELS (theorems are one level below their section)
+  title: string, // for theorems, the optional argument (such as [Main result]), or the display title
+  shortTitle: Maybe<string>, // the optional argument of a section (used in the table of contents)
+  starred: boolean,
+  range: TextRange, // the sectioning command, or the whole environment
+  contentRange: TextRange, // for sections, everything up to the next section of the same or a higher level
+  children: OutlineEntry[],
+}
+
+type LatexSyntax = SyntaxNode<TokenType, SyntaxKind>;
+
+// theorem-like environments declared with \newtheorem{name}{Title}, along with the defaults
+// (for a project, the declarations in every file, since they are usually in the preamble)
+export function theoremEnvironments(root: ParseTreeNode<TokenType, SyntaxKind> | Project): Map<string, string> {
+  let result = new Map(THEOREM_ENVIRONMENTS);
+  const roots = root instanceof Project ? root.allFiles().map((file) => file.root) : [root];
+  for (const node of roots.flatMap((root) => SyntaxNode.root(root).descendants())) {
+    if (node.kind() !== SyntaxKind.Command) {
+      continue;
+    }
+    const command = new Command(node.green);
+    const args = command.args();
+    if (command.name() === "newtheorem" && args.length >= 2) {
+      result.set(args[0].contentText().trim(), args[1].contentText().trim());
+    }
+  }
+  return result;
+}
+
+function sectionEntry(node: LatexSyntax, level: number): OutlineEntry {
+  const command = new Command(node.green);
+  const args = command.args();
+  const optional = command.optionalArgs();
+  return {
+    kind: OutlineKind.Section,
+    name: command.name(),
+    level: level,
+    title: args.length > 0 ? args[0].contentText().trim() : "",
+    shortTitle: optional.length > 0 ? optional[0].contentText().trim() : null,
+    starred: command.starred(),
+    range: node.textRange(),
+    contentRange: node.textRange(), // extended once the section ends
+    children: [],
+  };
+}
+
+function theoremEntry(node: LatexSyntax, name: string, displayTitle: string, level: number): OutlineEntry {
+  const begin = new Environment(node.green).begin();
+  const optional = begin === null ? [] : begin.optionalArgs();
+  return {
+    kind: OutlineKind.Theorem,
+    name: name,
+    level: level,
+    title: optional.length > 0 ? optional[0].contentText().trim() : displayTitle,
+    shortTitle: null,
+    starred: name.endsWith("*"),
+    range: node.textRange(),
+    contentRange: node.textRange(),
+    children: [],
+  };
+}
+
+// the top-level entries of the outline of a document
+// (`theorems` maps theorem-like environments to their titles, see theoremEnvironments)
+export function outline(root: ParseTreeNode<TokenType, SyntaxKind>, theorems?: Map<string, string>): OutlineEntry[];
+// the outline of each file of a project, by path (with the theorem-like environments of the whole project)
+export function outline(project: Project, theorems?: Map<string, string>): Map<string, OutlineEntry[]>;
+export function outline(root: ParseTreeNode<TokenType, SyntaxKind> | Project, theorems: Map<string, string> = theoremEnvironments(root)): OutlineEntry[] | Map<string, OutlineEntry[]> {
+  if (root instanceof Project) {
+    return new Map(root.allFiles().map((file) => [file.path, outline(file.root, theorems)]));
+  }
+  const syntax = SyntaxNode.root(root);
+  const end = syntax.textRange().end;
+  let entries: OutlineEntry[] = [];
+  let open: OutlineEntry[] = []; // the sections containing the current position, innermost last
+
+  const close = (entry: OutlineEntry, offset: number) => {
+    entry.contentRange = { start: entry.range.start, end: offset };
+  };
+  const add = (entry: OutlineEntry) => {
+    (open.length === 0 ? entries : open[open.length - 1].children).push(entry);
+  };
+
+  for (const node of syntax.descendants()) {
+    if (node.kind() === SyntaxKind.Command) {
+      const level = SECTION_LEVELS.get(new Command(node.green).name());
+      if (level === undefined) {
+        continue;
+      }
+      const entry = sectionEntry(node, level);
+      while (open.length > 0 && open[open.length - 1].level >= level) {
+        close(open.pop()!, entry.range.start);
+      }
+      add(entry);
+      open.push(entry);
+    } else if (node.kind() === SyntaxKind.Environment) {
+      const name = new Environment(node.green).name();
+      const base = name === null ? null : name.replace(/\*$/, "");
+      if (base === null || !theorems.has(base)) {
+        continue;
+      }
+      const level = open.length === 0 ? 0 : open[open.length - 1].level + 1;
+      add(theoremEntry(node, name!, theorems.get(base)!, level));
+    }
+  }
+  for (const entry of open) {
+    close(entry, end);
+  }
+  return entries;
+}
+
+// every entry of an outline, in document order
+export function flattenOutline(entries: OutlineEntry[]): OutlineEntry[] {
+  return entries.flatMap((entry) => [entry, ...flattenOutline(entry.children)]);
+}
+
+// the innermost section containing an offset (for scoping analyses)
+export function sectionAt(entries: OutlineEntry[], offset: number): Maybe<OutlineEntry> {
+  let result: Maybe<OutlineEntry> = null;
+  for (const entry of flattenOutline(entries)) {
+    if (entry.kind === OutlineKind.Section && entry.contentRange.start <= offset && offset < entry.contentRange.end) {
+      result = entry;
+    }
+  }
+  return result;
+}
@@ -1,5 +1,6 @@
 import { Token, Lexer } from "./lexer"
-import { assert, AssertionError, Enum, Maybe } from "./util"
+import { Diagnostic, RelatedInformation, Severity } from "./diagnostic"
+import { assert, AssertionError, Enum, EnumObject, Maybe, TextRange } from "./util"
 
 export class ParseError extends Error {
   override name = "ParseError";
@@ -11,11 +12,19 @@ export class ParseError extends Error {
 export type TokenOrNode<TokenType, SyntaxKind> = Token<TokenType> | ParseTreeNode<TokenType, SyntaxKind>
 
 // an untyped, homogenous parse tree (similar to a Rowan GreenNode)
+// (parent pointers and text ranges are provided by the SyntaxNode wrappers in syntax.ts)
 export interface ParseTreeNode<TokenType, SyntaxKind> {
-  // also keep track of parent?
   kind: SyntaxKind,
   syntaxData: any,
   children: TokenOrNode<TokenType, SyntaxKind>[],
+  // how far the offsets of the tokens in each child are shifted (such as by an incremental reparse,
+  // which shares the nodes after an edit instead of copying them with new offsets); none if missing
+  shifts?: number[],
+}
+
+// how far the offsets of the tokens in a child of `node` are shifted (see ParseTreeNode.shifts)
+export function childShift<TokenType, SyntaxKind>(node: ParseTreeNode<TokenType, SyntaxKind>, index: number): number {
+  return node.shifts === undefined ? 0 : node.shifts[index];
 }
 
 // an easy interface for building parse trees (basically a zipper)
@@ -59,20 +68,41 @@ class ParseTreeBuilder<TokenType, SyntaxKind> {
   }
 }
 
+// the result of parsing a source text: a (possibly partial) tree, along with any problems found
+export interface ParseResult<TokenType, SyntaxKind> {
+  root: ParseTreeNode<TokenType, SyntaxKind>,
+  diagnostics: Diagnostic[],
+}
+
 // produces an untyped parse tree
 // further processing is required to generate an abstract syntax tree
+//
+// Parsing never fails: unexpected tokens are wrapped in error nodes, expected tokens that
+// are not present are replaced by (empty) missing nodes, and each problem is recorded
+// in the list of diagnostics.
 export class Parser<TokenType extends Enum, SyntaxKind extends Enum> {
   tokens: Token<TokenType>[];
   lexer: Lexer<TokenType>;
   idx: number;
 
   builder: ParseTreeBuilder<TokenType, SyntaxKind>;
+  diagnostics: Diagnostic[];
+
+  tokenTypes: EnumObject; // the TokenType enum (for naming token types in diagnostics)
 
-  constructor(lexer: Lexer<TokenType>) {
+  // the node kinds used for error recovery
+  errorKind: SyntaxKind;
+  missingKind: SyntaxKind;
+
+  constructor(lexer: Lexer<TokenType>, tokenTypes: EnumObject, errorKind: SyntaxKind, missingKind: SyntaxKind) {
     this.lexer = lexer;
+    this.tokenTypes = tokenTypes;
     this.tokens = lexer.tokenize();
     this.builder = new ParseTreeBuilder();
     this.idx = 0;
+    this.diagnostics = [...lexer.diagnostics];
+    this.errorKind = errorKind;
+    this.missingKind = missingKind;
   }
 
   hasNext() {
@@ -92,33 +122,91 @@ export class Parser<TokenType extends Enum, SyntaxKind extends Enum> {
     this.idx++;
   }
 
-  expect(type: TokenType) {
-    let token = this.peek()!;
-    const [row, col] = this.lexer.getSourceLocation(token.offset);
-    if (token.type !== type) {
-      throw new ParseError(`Expected token of type ${String(type)} at ${row}:${col}, found ${String(token.type)} instead`);
+  // the range of the current token, or an empty range at the end of the source
+  currentRange(): TextRange {
+    let token = this.peek();
+    if (token === null) {
+      const end = this.lexer.end;
+      return { start: end, end: end };
+    }
+    return token.range;
+  }
+
+  error(message: string, range: TextRange = this.currentRange(), severity: Severity = Severity.Error, related: RelatedInformation[] = []) {
+    this.diagnostics.push(related.length === 0 ? { message, range, severity } : { message, range, severity, related });
+  }
+
+  // wraps the current token in an error node
+  errorToken(message: string) {
+    this.error(message);
+    this.skipToken();
+  }
+
+  // wraps the current token in an error node without reporting it (for problems that have already
+  // been reported, such as tokens that could not be lexed)
+  skipToken() {
+    this.builder.start_node(this.errorKind);
+    this.consume();
+    this.builder.end_node();
+  }
+
+  // inserts an empty node in place of something that was expected but not found
+  missing(message: string, data: any = null) {
+    const start = this.currentRange().start;
+    this.error(message, { start: start, end: start });
+    this.builder.start_node(this.missingKind, data);
+    this.builder.end_node();
+  }
+
+  // the name of a token type, such as RightCurly
+  describeType(type: TokenType): string {
+    const name = this.tokenTypes[type as number];
+    return typeof name === "string" ? name : String(type);
+  }
+
+  // the source of the current token, such as `}` (or its type, if the source wouldn't be readable)
+  describeCurrent(): string {
+    let token = this.peek();
+    if (token === null) {
+      return "end of input";
+    }
+    if (token.source.trim() === "" || token.source.length > 20 || token.source.includes("`")) {
+      return this.describeType(token.type);
+    }
+    return `\`${token.source}\``;
+  }
+
+  // returns whether the expected token was found
+  expect(type: TokenType): boolean {
+    let token = this.peek();
+    if (token === null || token.type !== type) {
+      this.missing(`Expected ${this.describeType(type)}, found ${this.describeCurrent()} instead`, type);
+      return false;
     }
     this.builder.push(token);
     this.idx++;
+    return true;
   }
 
-  expectIgnore(type: TokenType) {
-    let token = this.peek()!;
-    const [row, col] = this.lexer.getSourceLocation(token.offset);
-    if (token.type !== type) {
-      throw new ParseError(`Expected token of type ${String(type)} at ${row}:${col}, found ${String(token.type)} instead`);
+  expectIgnore(type: TokenType): boolean {
+    let token = this.peek();
+    if (token === null || token.type !== type) {
+      this.error(`Expected ${this.describeType(type)}, found ${this.describeCurrent()} instead`);
+      return false;
     }
     this.idx++;
+    return true;
   }
 
-  expect2(type1: TokenType, type2: TokenType) {
-    let token = this.peek()!;
-    const [row, col] = this.lexer.getSourceLocation(token.offset);
-    if (token.type !== type1 && token.type !== type2) {
-      throw new ParseError(`Expected token of type ${String(type1)} or ${String(type2)} at ${row}:${col}, found ${String(token.type)} instead`);
+  expect2(type1: TokenType, type2: TokenType): boolean {
+    let token = this.peek();
+    if (token === null || (token.type !== type1 && token.type !== type2)) {
+      this.missing(`Expected ${this.describeType(type1)} or ${this.describeType(type2)}, found ${this.describeCurrent()} instead`, type1);
+      return false;
     }
     this.builder.push(token);
     this.idx++;
+    return true;
   }
 
   ignore() {
@@ -128,6 +216,11 @@ export class Parser<TokenType extends Enum, SyntaxKind extends Enum> {
   parse(): ParseTreeNode<TokenType, SyntaxKind> {
     throw new ParseError("Unimplemented")
   }
+
+  parseWithDiagnostics(): ParseResult<TokenType, SyntaxKind> {
+    const root = this.parse();
+    return { root: root, diagnostics: this.diagnostics };
+  }
 }
 
 // https://www.typescriptlang.org/docs/handbook/2/narrowing.html#using-type-predicates
@@ -161,6 +254,22 @@ export function concatParseTrees<TokenType, SyntaxKind>(nodes: TokenOrNode<Token
   return nodes.map(concatParseTree).join("")
 }
 
+// structural equality of parse trees (tokens are compared by type, data, text and position)
+// (`shiftA` and `shiftB` are the shifts of the offsets in each tree, see ParseTreeNode.shifts)
+export function parseTreeEquals<TokenType, SyntaxKind>(a: TokenOrNode<TokenType, SyntaxKind>, b: TokenOrNode<TokenType, SyntaxKind>, shiftA: number = 0, shiftB: number = 0): boolean {
+  if (isToken(a) || isToken(b)) {
+    return isToken(a) && isToken(b)
+      && a.type === b.type
+      && a.source === b.source
+      && a.range.start + shiftA === b.range.start + shiftB
+      && JSON.stringify(a.tokenData) === JSON.stringify(b.tokenData);
+  }
+  return a.kind === b.kind
+    && JSON.stringify(a.syntaxData) === JSON.stringify(b.syntaxData)
+    && a.children.length === b.children.length
+    && a.children.every((child, i) => parseTreeEquals(child, b.children[i], shiftA + childShift(a, i), shiftB + childShift(b, i)));
+}
+
 export function findFirstToken<TokenType, SyntaxKind>(arr: TokenOrNode<TokenType, SyntaxKind>[], type: TokenType): Maybe<Token<TokenType>> {
   for (let e of arr) {
     if (isToken(e) && e.type === type) {
@@ -183,3 +292,18 @@ export interface ASTNode<TokenType, SyntaxKind> {
   syntax: TokenOrNode<TokenType, SyntaxKind>,
   type: SyntaxKind,
 }
+
+// a base class for AST wrappers of nodes of the given kinds, which checks the kind of the node it wraps
+// (each language has a shorthand for it, as in `class Frac extends mathNode(SyntaxKind.Frac)`)
+export function astNode<TokenType, SyntaxKind, K extends SyntaxKind>(kinds: K[]) {
+  return class implements ASTNode<TokenType, SyntaxKind> {
+    syntax: ParseTreeNode<TokenType, SyntaxKind>;
+    type: K;
+
+    constructor(syntax: ParseTreeNode<TokenType, SyntaxKind>) {
+      assert(syntax !== null);
+      assert(kinds.includes(syntax.kind as K));
+      this.syntax = syntax;
+    }
+  };
+}
@@ -0,0 +1,359 @@
+// Multi-file projects, where a root .tex file pulls in other files with \input, \include, etc.
+//
+// Paths are resolved like LaTeX does:
+//   \input{file}, \include{file}  relative to the directory of the root file (LaTeX's working
+//                                 directory), or to the directory of an \import
+//   \subfile{file}                relative to the directory of the file containing it
+//   \import{dir}{file}            dir is relative to the root file, and inputs inside the
+//                                 imported file are relative to dir
+//   \subimport{dir}{file}         like \import, but dir is relative to the file containing it
+// A missing .tex extension is inferred (\include always adds it), and \input also takes a file
+// name without braces (\input chapter1), up to the next space.
+//
+// Files are parsed twice: once to find every file and macro definition, and once more with all
+// the macros registered, so that a macro defined in preamble.tex is parsed with the right
+// arguments in chapter3.tex (even if chapter3.tex was read first).
+//
+// Each file keeps its own tree (with ranges into its own text); the combined document is given by
+// Project.segments(), which lists the parts of each file in reading order.
+import { readFileSync, existsSync, statSync } from "fs"
+import { ParseTreeNode } from "./parser"
+import { Diagnostic, Severity } from "./diagnostic"
+import { SyntaxNode } from "./syntax"
+import { TokenType, SyntaxKind, Command, parseLatex, catcodesFor } from "./latex"
+import { CommandRegistry, STANDARD_COMMANDS } from "./commands"
+import { MacroDefinition, collectMacros, registerMacros } from "./macros"
+import { Maybe, TextRange } from "./util"
+
+export class FileNotFoundError extends Error {
+  override name = "FileNotFoundError";
+  constructor(message: string) {
+    super(message);
+  }
+}
+
+// how a project reads its files (paths use / as the separator)
+export interface FileSystem {
+  readFile(path: string): Maybe<string>, // null if there is no such file
+}
+
+// a file system in memory, for tests and for files that are open in an editor
+export class MemoryFileSystem implements FileSystem {
+  files: Map<string, string>;
+
+  constructor(files: { [path: string]: string } = {}) {
+    this.files = new Map();
+    for (const [path, text] of Object.entries(files)) {
+      this.writeFile(path, text);
+    }
+  }
+
+  writeFile(path: string, text: string) {
+    this.files.set(normalizePath(path), text);
+  }
+
+  readFile(path: string): Maybe<string> {
+    return this.files.get(normalizePath(path)) ?? null;
+  }
+}
+
+export class DiskFileSystem implements FileSystem {
+  readFile(path: string): Maybe<string> {
+    // (a directory is not a file, even though it exists)
+    return existsSync(path) && statSync(path).isFile() ? readFileSync(path, "utf8") : null;
+  }
+}
+
+// Paths
+
+// resolves . and .. segments, and removes duplicate slashes
+export function normalizePath(path: string): string {
+  const absolute = path.startsWith("/");
+  let segments: string[] = [];
+  for (const segment of path.split("/")) {
+    if (segment === "" || segment === ".") {
+      continue;
+    }
+    if (segment === ".." && segments.length > 0 && segments[segments.length - 1] !== "..") {
+      segments.pop();
+    } else if (segment !== ".." || !absolute) {
+      segments.push(segment);
+    }
+  }
+  const result = segments.join("/");
+  return absolute ? `/${result}` : (result === "" ? "." : result);
+}
+
+export function dirname(path: string): string {
+  const i = path.lastIndexOf("/");
+  if (i === -1) {
+    return ".";
+  }
+  return i === 0 ? "/" : path.slice(0, i);
+}
+
+export function joinPath(dir: string, path: string): string {
+  return normalizePath(path.startsWith("/") ? path : `${dir}/${path}`);
+}
+
+// the paths to try for a file name, in order
+function candidatePaths(name: string, alwaysTex: boolean): string[] {
+  if (alwaysTex) {
+    return [`${name}.tex`];
+  }
+  if (/\.[^./]+$/.test(name)) {
+    return [name, `${name}.tex`];
+  }
+  return [`${name}.tex`, name];
+}
+
+// Projects
+
+export enum InclusionKind {
+  Input,
+  Include,
+  Subfile,
+  Import,
+  Subimport,
+}
+
+const INCLUSION_COMMANDS: Map<string, InclusionKind> = new Map([
+  ["input", InclusionKind.Input],
+  ["include", InclusionKind.Include],
+  ["subfile", InclusionKind.Subfile],
+  ["import", InclusionKind.Import],
+  ["subimport", InclusionKind.Subimport],
+]);
+
+// a command that includes another file
+export interface Inclusion {
+  kind: InclusionKind,
+  name: string, // the file name, as written
+  range: TextRange, // the command (and a file name without braces), in the including file
+  path: Maybe<string>, // the resolved path, or null if the file could not be found
+}
+
+// a part of the combined document: a range of one file, between the inclusions in it
+export interface Segment {
+  path: string,
+  range: TextRange,
+}
+
+// the file name after an \input without braces (read up to a space, like TeX does), along with the
+// offset of its end
+function bracelessName(text: string, offset: number): Maybe<[string, number]> {
+  const match = /^[ \t]*([^\s{}%\\#]+)/.exec(text.slice(offset, offset + 256));
+  return match === null ? null : [match[1], offset + match[0].length];
+}
+
+export interface ProjectFile {
+  path: string,
+  text: string,
+  root: ParseTreeNode<TokenType, SyntaxKind>,
+  diagnostics: Diagnostic[], // parse errors, and problems with inclusions
+  inclusions: Inclusion[],
+  baseDir: string, // the directory that \input and \include are relative to
+}
+
+class Loader {
+  fs: FileSystem;
+  registry: CommandRegistry;
+  rootDir: string;
+  files: Map<string, ProjectFile>;
+  order: string[];
+  stack: string[]; // the files currently being loaded, to detect cycles
+
+  constructor(fs: FileSystem, registry: CommandRegistry, rootDir: string) {
+    this.fs = fs;
+    this.registry = registry;
+    this.rootDir = rootDir;
+    this.files = new Map();
+    this.order = [];
+    this.stack = [];
+  }
+
+  // the directory a file name is relative to, and the base directory for the included file
+  directories(kind: InclusionKind, args: string[], file: ProjectFile): [string, string] {
+    switch (kind) {
+      case InclusionKind.Input:
+      case InclusionKind.Include:
+        return [file.baseDir, file.baseDir];
+      case InclusionKind.Subfile: {
+        return [dirname(file.path), dirname(file.path)];
+      }
+      case InclusionKind.Import: {
+        const dir = joinPath(this.rootDir, args[0]);
+        return [dir, dir];
+      }
+      case InclusionKind.Subimport: {
+        const dir = joinPath(dirname(file.path), args[0]);
+        return [dir, dir];
+      }
+    }
+  }
+
+  load(path: string, text: string, baseDir: string) {
+    const result = parseLatex(text, this.registry, catcodesFor(path));
+    const file: ProjectFile = {
+      path: path,
+      text: text,
+      root: result.root,
+      diagnostics: [...result.diagnostics],
+      inclusions: [],
+      baseDir: baseDir,
+    };
+    this.files.set(path, file);
+    this.order.push(path);
+    this.stack.push(path);
+
+    for (const node of SyntaxNode.root(result.root).descendants()) {
+      if (node.kind() !== SyntaxKind.Command) {
+        continue;
+      }
+      const command = new Command(node.green);
+      const kind = INCLUSION_COMMANDS.get(command.name());
+      if (kind === undefined) {
+        continue;
+      }
+      let args = command.args().map((arg) => arg.contentText().trim());
+      let range = node.textRange();
+      if (kind === InclusionKind.Input && args.length === 0) {
+        const braceless = bracelessName(text, range.end);
+        if (braceless !== null) {
+          args = [braceless[0]];
+          range = { start: range.start, end: braceless[1] };
+        }
+      }
+      const expected = kind === InclusionKind.Import || kind === InclusionKind.Subimport ? 2 : 1;
+      // names with parameters come from macro definitions, such as \newcommand{\chapter}[1]{\input{#1}}
+      if (args.length < expected || args.some((arg) => arg.includes("#"))) {
+        continue;
+      }
+      this.include(file, kind, args, range);
+    }
+
+    this.stack.pop();
+  }
+
+  include(file: ProjectFile, kind: InclusionKind, args: string[], range: TextRange) {
+    const name = args[args.length - 1];
+    const [dir, baseDir] = this.directories(kind, args, file);
+    const candidates = candidatePaths(joinPath(dir, name), kind === InclusionKind.Include);
+
+    let path: Maybe<string> = null;
+    let text: Maybe<string> = null;
+    for (const candidate of candidates) {
+      if (this.files.has(candidate)) {
+        path = candidate;
+        break;
+      }
+      text = this.fs.readFile(candidate);
+      if (text !== null) {
+        path = candidate;
+        break;
+      }
+    }
+    file.inclusions.push({ kind, name, range, path });
+
+    if (path === null) {
+      file.diagnostics.push({ message: `File not found: ${name} (tried ${candidates.join(", ")})`, range, severity: Severity.Warning });
+    } else if (this.stack.includes(path)) {
+      const cycle = [...this.stack.slice(this.stack.indexOf(path)), path];
+      file.diagnostics.push({ message: `Include cycle: ${cycle.join(" -> ")}`, range, severity: Severity.Error });
+    } else if (text !== null) {
+      // (files that were already loaded are not loaded again)
+      this.load(path, text, baseDir);
+    }
+  }
+}
+
+export class Project {
+  fs: FileSystem;
+  rootPath: string;
+  registry: CommandRegistry; // with every macro defined in the project
+  files: Map<string, ProjectFile>;
+  order: string[]; // the paths of the files, in the order they are first included
+
+  constructor(fs: FileSystem, rootPath: string, registry: CommandRegistry, files: Map<string, ProjectFile>, order: string[]) {
+    this.fs = fs;
+    this.rootPath = rootPath;
+    this.registry = registry;
+    this.files = files;
+    this.order = order;
+  }
+
+  // throws a FileNotFoundError if the root file does not exist
+  static load(fs: FileSystem, rootPath: string, registry: CommandRegistry = STANDARD_COMMANDS): Project {
+    rootPath = normalizePath(rootPath);
+    const text = fs.readFile(rootPath);
+    if (text === null) {
+      throw new FileNotFoundError(`File not found: ${rootPath}`);
+    }
+    const rootDir = dirname(rootPath);
+
+    const first = new Loader(fs, registry, rootDir);
+    first.load(rootPath, text, rootDir);
+    const final = registry.clone();
+    registerMacros(final, first.order.flatMap((path) => collectMacros(first.files.get(path)!.root)));
+
+    const second = new Loader(fs, final, rootDir);
+    second.load(rootPath, text, rootDir);
+    return new Project(fs, rootPath, final, second.files, second.order);
+  }
+
+  root(): ProjectFile {
+    return this.files.get(this.rootPath)!;
+  }
+
+  file(path: string): Maybe<ProjectFile> {
+    return this.files.get(normalizePath(path)) ?? null;
+  }
+
+  // the files in order
+  allFiles(): ProjectFile[] {
+    return this.order.map((path) => this.files.get(path)!);
+  }
+
+  // every macro definition in the project, in file order
+  macros(): MacroDefinition[] {
+    return this.allFiles().flatMap((file) => collectMacros(file.root));
+  }
+
+  // the diagnostics of every file
+  diagnostics(): Map<string, Diagnostic[]> {
+    return new Map(this.allFiles().map((file) => [file.path, file.diagnostics]));
+  }
+
+  // the files that include a given file
+  includers(path: string): ProjectFile[] {
+    path = normalizePath(path);
+    return this.allFiles().filter((file) => file.inclusions.some((inclusion) => inclusion.path === path));
+  }
+
+  // the combined document, as the parts of each file in reading order: an included file takes the
+  // place of the command that includes it (inclusions that could not be resolved, or that would
+  // form a cycle, are left as they are)
+  segments(): Segment[] {
+    let result: Segment[] = [];
+    const visit = (file: ProjectFile, stack: string[]) => {
+      let start = 0;
+      for (const inclusion of file.inclusions) {
+        const included = inclusion.path === null || stack.includes(inclusion.path) ? null : this.files.get(inclusion.path);
+        if (included === null || included === undefined) {
+          continue;
+        }
+        result.push({ path: file.path, range: { start, end: inclusion.range.start } });
+        visit(included, [...stack, included.path]);
+        start = inclusion.range.end;
+      }
+      result.push({ path: file.path, range: { start, end: file.text.length } });
+    };
+    visit(this.root(), [this.rootPath]);
+    return result.filter((segment) => segment.range.start < segment.range.end);
+  }
+
+  // the text of the combined document
+  text(): string {
+    return this.segments().map((segment) => this.files.get(segment.path)!.text.slice(segment.range.start, segment.range.end)).join("");
+  }
+}
@@ -0,0 +1,281 @@
+// Walking and querying parse trees (of either language)
+//
+// Selectors are a small subset of CSS selectors, where node kinds take the place of tag names:
+//   Command[name=label]              commands named label
+//   Environment[name=proof] Formula  formulas anywhere inside a proof environment
+//   Root > Environment               top-level environments
+//   CurlyGroup, BracketGroup         either kind of group
+//   *[name]                          any node with a name
+// Attribute values can be quoted ("...") if they contain spaces, commas or brackets.
+// The kinds and attributes available depend on the language (see LATEX_QUERY and MATH_QUERY).
+import { ParseTreeNode } from "./parser"
+import { SyntaxNode, SyntaxToken } from "./syntax"
+import { Maybe } from "./util"
+
+export class SelectorError extends Error {
+  override name = "SelectorError";
+  constructor(message: string) {
+    super(message);
+  }
+}
+
+// describes the nodes of a language to the selector engine
+export interface QueryLanguage<TokenType, SyntaxKind> {
+  kinds: { [name: string]: SyntaxKind | string }, // the SyntaxKind enum
+  attribute: (node: SyntaxNode<TokenType, SyntaxKind>, name: string) => Maybe<string>, // null if a node doesn't have the attribute
+}
+
+// Walking
+
+// returning false from an enter callback skips the node's children (and its leave callback)
+export type VisitFn<TokenType, SyntaxKind> = (node: SyntaxNode<TokenType, SyntaxKind>) => void | boolean;
+
+// callbacks for each kind of node, as in { [SyntaxKind.Formula]: (node) => ... }
+export type KindHandlers<TokenType, SyntaxKind> = { [kind: number]: VisitFn<TokenType, SyntaxKind> };
+
+export interface Visitor<TokenType, SyntaxKind> {
+  enter?: KindHandlers<TokenType, SyntaxKind>,
+  leave?: KindHandlers<TokenType, SyntaxKind>,
+  any?: VisitFn<TokenType, SyntaxKind>, // called when entering any node, before the handler for its kind
+  token?: (token: SyntaxToken<TokenType, SyntaxKind>) => void,
+}
+
+function handler<TokenType, SyntaxKind>(handlers: KindHandlers<TokenType, SyntaxKind> | undefined, kind: SyntaxKind): VisitFn<TokenType, SyntaxKind> | undefined {
+  return handlers === undefined ? undefined : handlers[kind as unknown as number];
+}
+
+function visit<TokenType, SyntaxKind>(node: SyntaxNode<TokenType, SyntaxKind>, visitor: Visitor<TokenType, SyntaxKind>) {
+  if (visitor.any !== undefined && visitor.any(node) === false) {
+    return;
+  }
+  const enter = handler(visitor.enter, node.kind());
+  if (enter !== undefined && enter(node) === false) {
+    return;
+  }
+  for (const child of node.childrenWithTokens()) {
+    if (child instanceof SyntaxNode) {
+      visit(child, visitor);
+    } else if (visitor.token !== undefined) {
+      visitor.token(child);
+    }
+  }
+  const leave = handler(visitor.leave, node.kind());
+  if (leave !== undefined) {
+    leave(node);
+  }
+}
+
+// visits every node (and token) of a tree in document order
+export function walk<TokenType, SyntaxKind>(root: ParseTreeNode<TokenType, SyntaxKind> | SyntaxNode<TokenType, SyntaxKind>, visitor: Visitor<TokenType, SyntaxKind>) {
+  visit(root instanceof SyntaxNode ? root : SyntaxNode.root(root), visitor);
+}
+
+// Selectors
+
+interface AttributeTest {
+  name: string,
+  value: Maybe<string>, // null if the attribute only has to be present
+}
+
+interface Compound {
+  kind: Maybe<number>, // null for *
+  attributes: AttributeTest[],
+}
+
+enum Combinator {
+  Descendant,
+  Child,
+}
+
+// a chain of compound selectors, matched from right to left
+interface Complex {
+  compounds: Compound[],
+  combinators: Combinator[], // between consecutive compounds
+}
+
+class SelectorParser {
+  text: string;
+  index: number;
+  kinds: { [name: string]: number | string };
+
+  constructor(text: string, kinds: { [name: string]: number | string }) {
+    this.text = text;
+    this.index = 0;
+    this.kinds = kinds;
+  }
+
+  error(message: string): never {
+    throw new SelectorError(`${message} at offset ${this.index} of selector ${JSON.stringify(this.text)}`);
+  }
+
+  skipWhitespace(): boolean {
+    const start = this.index;
+    while (this.index < this.text.length && /\s/.test(this.text[this.index])) {
+      this.index++;
+    }
+    return this.index > start;
+  }
+
+  identifier(): string {
+    const match = /[A-Za-z_][A-Za-z0-9_-]*/y;
+    match.lastIndex = this.index;
+    const result = match.exec(this.text);
+    if (result === null) {
+      this.error("Expected a name");
+    }
+    this.index += result[0].length;
+    return result[0];
+  }
+
+  value(): string {
+    if (this.text[this.index] === "\"") {
+      const end = this.text.indexOf("\"", this.index + 1);
+      if (end === -1) {
+        this.error("Unterminated string");
+      }
+      const value = this.text.slice(this.index + 1, end);
+      this.index = end + 1;
+      return value;
+    }
+    const start = this.index;
+    while (this.index < this.text.length && !/[\]\s]/.test(this.text[this.index])) {
+      this.index++;
+    }
+    return this.text.slice(start, this.index);
+  }
+
+  compound(): Compound {
+    let kind: Maybe<number> = null;
+    if (this.text[this.index] === "*") {
+      this.index++;
+    } else {
+      const name = this.identifier();
+      const value = this.kinds[name];
+      if (typeof value !== "number") {
+        this.error(`Unknown node kind ${name}`);
+      }
+      kind = value;
+    }
+
+    let attributes: AttributeTest[] = [];
+    while (this.text[this.index] === "[") {
+      this.index++;
+      this.skipWhitespace();
+      const name = this.identifier();
+      this.skipWhitespace();
+      let value: Maybe<string> = null;
+      if (this.text[this.index] === "=") {
+        this.index++;
+        this.skipWhitespace();
+        value = this.value();
+        this.skipWhitespace();
+      }
+      if (this.text[this.index] !== "]") {
+        this.error("Expected ]");
+      }
+      this.index++;
+      attributes.push({ name, value });
+    }
+    return { kind, attributes };
+  }
+
+  complex(): Complex {
+    let compounds = [this.compound()];
+    let combinators: Combinator[] = [];
+    while (true) {
+      const space = this.skipWhitespace();
+      const c = this.text[this.index];
+      if (this.index >= this.text.length || c === ",") {
+        break;
+      }
+      if (c === ">") {
+        this.index++;
+        this.skipWhitespace();
+        combinators.push(Combinator.Child);
+      } else if (space) {
+        combinators.push(Combinator.Descendant);
+      } else {
+        this.error(`Unexpected ${c}`);
+      }
+      compounds.push(this.compound());
+    }
+    return { compounds, combinators };
+  }
+
+  // a comma-separated list of selectors
+  parse(): Complex[] {
+    let result: Complex[] = [];
+    while (true) {
+      this.skipWhitespace();
+      result.push(this.complex());
+      if (this.index >= this.text.length) {
+        return result;
+      }
+      this.index++; // ,
+    }
+  }
+}
+
+export class Selector<TokenType, SyntaxKind> {
+  text: string;
+  language: QueryLanguage<TokenType, SyntaxKind>;
+  alternatives: Complex[];
+
+  // throws a SelectorError if the selector is malformed
+  constructor(text: string, language: QueryLanguage<TokenType, SyntaxKind>) {
+    this.text = text;
+    this.language = language;
+    this.alternatives = new SelectorParser(text, language.kinds as { [name: string]: number | string }).parse();
+  }
+
+  private matchesCompound(node: SyntaxNode<TokenType, SyntaxKind>, compound: Compound): boolean {
+    if (compound.kind !== null && node.kind() as unknown as number !== compound.kind) {
+      return false;
+    }
+    return compound.attributes.every((test) => {
+      const value = this.language.attribute(node, test.name);
+      return value !== null && (test.value === null || value === test.value);
+    });
+  }
+
+  // whether the compounds up to index i match, with compounds[i] matching `node`
+  private matchesFrom(node: SyntaxNode<TokenType, SyntaxKind>, complex: Complex, i: number): boolean {
+    if (!this.matchesCompound(node, complex.compounds[i])) {
+      return false;
+    }
+    if (i === 0) {
+      return true;
+    }
+    let parent = node.parent();
+    if (complex.combinators[i - 1] === Combinator.Child) {
+      return parent !== null && this.matchesFrom(parent, complex, i - 1);
+    }
+    while (parent !== null) {
+      if (this.matchesFrom(parent, complex, i - 1)) {
+        return true;
+      }
+      parent = parent.parent();
+    }
+    return false;
+  }
+
+  matches(node: SyntaxNode<TokenType, SyntaxKind>): boolean {
+    return this.alternatives.some((complex) => this.matchesFrom(node, complex, complex.compounds.length - 1));
+  }
+
+  // every matching node in the tree (including the root), in document order
+  selectAll(root: ParseTreeNode<TokenType, SyntaxKind> | SyntaxNode<TokenType, SyntaxKind>): SyntaxNode<TokenType, SyntaxKind>[] {
+    const node = root instanceof SyntaxNode ? root : SyntaxNode.root(root);
+    return node.descendants().filter((descendant) => this.matches(descendant));
+  }
+
+  selectFirst(root: ParseTreeNode<TokenType, SyntaxKind> | SyntaxNode<TokenType, SyntaxKind>): Maybe<SyntaxNode<TokenType, SyntaxKind>> {
+    const node = root instanceof SyntaxNode ? root : SyntaxNode.root(root);
+    return node.descendants().find((descendant) => this.matches(descendant)) ?? null;
+  }
+}
+
+// every node matching a selector, in document order
+export function select<TokenType, SyntaxKind>(root: ParseTreeNode<TokenType, SyntaxKind> | SyntaxNode<TokenType, SyntaxKind>, selector: string, language: QueryLanguage<TokenType, SyntaxKind>): SyntaxNode<TokenType, SyntaxKind>[] {
+  return new Selector(selector, language).selectAll(root);
+}
@@ -0,0 +1,209 @@
+// An index of labels, references and citations, across the files of a project
+//
+// Labels are defined with \label and used by \ref and friends; citation keys are defined with
+// \bibitem (or in a .bib file, which isn't read) and used by \cite and friends.
+import { ParseTreeNode } from "./parser"
+import { Diagnostic, Severity } from "./diagnostic"
+import { SyntaxNode } from "./syntax"
+import { TokenType, SyntaxKind, Command, Environment } from "./latex"
+import { Project } from "./project"
+import { Maybe, TextRange } from "./util"
+
+export enum ReferenceKind {
+  Label, // a reference to a \label
+  Citation, // a reference to a \bibitem or bibliography entry
+}
+
+const LABEL_COMMANDS = ["label"];
+const BIBITEM_COMMANDS = ["bibitem"];
+const REFERENCE_COMMANDS = ["ref", "eqref", "pageref", "autoref", "nameref", "cref", "Cref"];
+const CITATION_COMMANDS = ["cite", "citep", "citet", "nocite"];
+// commands that load an external bibliography (so undefined citations can't be detected)
+const BIBLIOGRAPHY_COMMANDS = ["bibliography", "addbibresource"];
+
+// the environment, equation or formula that a label belongs to
+export interface LabelContainer {
+  kind: SyntaxKind,
+  environment: Maybe<string>, // for environments
+  range: TextRange,
+}
+
+export interface Definition {
+  kind: ReferenceKind,
+  name: string,
+  path: string,
+  range: TextRange, // the whole command
+  nameRange: TextRange, // just the name
+  container: Maybe<LabelContainer>,
+}
+
+export interface Reference {
+  kind: ReferenceKind,
+  command: string, // such as eqref
+  name: string,
+  path: string,
+  range: TextRange, // the whole command
+  nameRange: TextRange, // just the name (commands like \cref{a,b} have several)
+}
+
+type LatexSyntax = SyntaxNode<TokenType, SyntaxKind>;
+
+// the comma-separated names in the first mandatory argument of a command, with their ranges
+function argumentNames(node: LatexSyntax): [string, TextRange][] {
+  const group = node.children().find((child) => child.kind() === SyntaxKind.CurlyGroup);
+  if (group === undefined || group.green.children.length < 2) {
+    return [];
+  }
+  const range = group.textRange();
+  const start = range.start + 1;
+  const text = group.text().slice(1, group.text().endsWith("}") ? -1 : undefined);
+
+  let result: [string, TextRange][] = [];
+  let offset = 0;
+  for (const part of text.split(",")) {
+    const name = part.trim();
+    // names with parameters come from macro definitions, such as \newcommand{\foo}[1]{\label{#1}}
+    if (name !== "" && !name.includes("#")) {
+      const nameStart = start + offset + part.indexOf(name);
+      result.push([name, { start: nameStart, end: nameStart + name.length }]);
+    }
+    offset += part.length + 1;
+  }
+  return result;
+}
+
+function container(node: LatexSyntax): Maybe<LabelContainer> {
+  for (const ancestor of node.ancestors()) {
+    const kind = ancestor.kind();
+    if (kind === SyntaxKind.Environment || kind === SyntaxKind.MathEnvironment) {
+      return { kind, environment: new Environment(ancestor.green).name(), range: ancestor.textRange() };
+    }
+    if (kind === SyntaxKind.Equation || kind === SyntaxKind.Formula) {
+      return { kind, environment: null, range: ancestor.textRange() };
+    }
+  }
+  return null;
+}
+
+function contains(range: TextRange, offset: number) {
+  return range.start <= offset && offset <= range.end;
+}
+
+export class ReferenceIndex {
+  definitions: Definition[];
+  references: Reference[];
+  externalBibliography: boolean; // whether citations may be defined in a .bib file
+  paths: string[];
+
+  constructor() {
+    this.definitions = [];
+    this.references = [];
+    this.externalBibliography = false;
+    this.paths = [];
+  }
+
+  // `files` are pairs of paths and trees
+  static build(files: [string, ParseTreeNode<TokenType, SyntaxKind>][]): ReferenceIndex {
+    const index = new ReferenceIndex();
+    for (const [path, root] of files) {
+      index.add(path, root);
+    }
+    return index;
+  }
+
+  static fromProject(project: Project): ReferenceIndex {
+    return ReferenceIndex.build(project.allFiles().map((file) => [file.path, file.root]));
+  }
+
+  private add(path: string, root: ParseTreeNode<TokenType, SyntaxKind>) {
+    this.paths.push(path);
+    for (const node of SyntaxNode.root(root).descendants()) {
+      if (node.kind() !== SyntaxKind.Command) {
+        continue;
+      }
+      const command = new Command(node.green).name();
+      const range = node.textRange();
+      if (BIBLIOGRAPHY_COMMANDS.includes(command)) {
+        this.externalBibliography = true;
+      }
+
+      const label = LABEL_COMMANDS.includes(command);
+      const bibitem = BIBITEM_COMMANDS.includes(command);
+      if (label || bibitem) {
+        const kind = label ? ReferenceKind.Label : ReferenceKind.Citation;
+        for (const [name, nameRange] of argumentNames(node)) {
+          this.definitions.push({ kind, name, path, range, nameRange, container: label ? container(node) : null });
+        }
+      }
+
+      const reference = REFERENCE_COMMANDS.includes(command);
+      const citation = CITATION_COMMANDS.includes(command);
+      if (reference || citation) {
+        const kind = reference ? ReferenceKind.Label : ReferenceKind.Citation;
+        for (const [name, nameRange] of argumentNames(node)) {
+          // \nocite{*} cites everything
+          if (name !== "*") {
+            this.references.push({ kind, command, name, path, range, nameRange });
+          }
+        }
+      }
+    }
+  }
+
+  // the definitions of a name (there should be just one), for jumping to the definition
+  definitionsOf(kind: ReferenceKind, name: string): Definition[] {
+    return this.definitions.filter((def) => def.kind === kind && def.name === name);
+  }
+
+  referencesTo(kind: ReferenceKind, name: string): Reference[] {
+    return this.references.filter((ref) => ref.kind === kind && ref.name === name);
+  }
+
+  // the definition or reference whose name is at an offset in a file (such as under the cursor)
+  at(path: string, offset: number): Maybe<Definition | Reference> {
+    const entries: (Definition | Reference)[] = [...this.definitions, ...this.references];
+    return entries.find((entry) => entry.path === path && contains(entry.nameRange, offset)) ?? null;
+  }
+
+  // undefined references, duplicate definitions and unused labels, by file
+  diagnostics(): Map<string, Diagnostic[]> {
+    let result: Map<string, Diagnostic[]> = new Map(this.paths.map((path) => [path, []]));
+    const report = (path: string, diagnostic: Diagnostic) => {
+      if (!result.has(path)) {
+        result.set(path, []);
+      }
+      result.get(path)!.push(diagnostic);
+    };
+
+    for (const ref of this.references) {
+      if (this.definitionsOf(ref.kind, ref.name).length > 0) {
+        continue;
+      }
+      if (ref.kind === ReferenceKind.Label) {
+        report(ref.path, { message: `Undefined reference ${ref.name}`, range: ref.nameRange, severity: Severity.Warning });
+      } else if (!this.externalBibliography) {
+        report(ref.path, { message: `Undefined citation ${ref.name}`, range: ref.nameRange, severity: Severity.Warning });
+      }
+    }
+
+    for (const def of this.definitions) {
+      const defs = this.definitionsOf(def.kind, def.name);
+      if (defs.length > 1) {
+        const what = def.kind === ReferenceKind.Label ? "label" : "bibliography item";
+        // related locations can only be given within the same file
+        const related = defs
+          .filter((other) => other !== def && other.path === def.path)
+          .map((other) => ({ message: `${def.name} is also defined here`, range: other.nameRange }));
+        let diagnostic: Diagnostic = { message: `Duplicate ${what} ${def.name}`, range: def.nameRange, severity: Severity.Warning };
+        if (related.length > 0) {
+          diagnostic.related = related;
+        }
+        report(def.path, diagnostic);
+      }
+      if (def.kind === ReferenceKind.Label && this.referencesTo(def.kind, def.name).length === 0) {
+        report(def.path, { message: `Unused label ${def.name}`, range: def.nameRange, severity: Severity.Hint });
+      }
+    }
+    return result;
+  }
+}
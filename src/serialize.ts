@@ -0,0 +1,135 @@
+// Serialization of parse trees (of either language)
+//
+// dumpTree gives a readable indented dump in the style of rust-analyzer, for debugging:
+//   Root@0..25
+//     Environment@0..25
+//       Begin@0..13
+//         Command@0..6 "\\begin"
+//         ...
+//
+// treeToJSON and treeFromJSON convert trees to and from plain JSON values (using enum names
+// instead of numbers), without losing any information.
+import { Token } from "./lexer"
+import { ParseTreeNode, TokenOrNode, isToken, childShift } from "./parser"
+import { SyntaxNode, SyntaxToken } from "./syntax"
+import { EnumObject, TextRange } from "./util"
+
+export class DeserializeError extends Error {
+  override name = "DeserializeError";
+  constructor(message: string) {
+    super(message);
+  }
+}
+
+// (EnumObject is defined in util.ts, since the parser also names token types)
+export type { EnumObject };
+
+export interface JSONToken {
+  type: string,
+  text: string,
+  range: [number, number],
+  data?: any, // the token data, if it isn't null
+}
+
+export interface JSONNode {
+  kind: string,
+  data?: any, // the syntax data, if it isn't null
+  children: (JSONNode | JSONToken)[],
+}
+
+function rangeText(range: TextRange): string {
+  return `${range.start}..${range.end}`;
+}
+
+// an indented dump of a tree, with one node or token per line
+export function dumpTree<TokenType, SyntaxKind>(root: ParseTreeNode<TokenType, SyntaxKind>, tokenTypes: EnumObject, kinds: EnumObject): string {
+  let lines: string[] = [];
+  const visit = (element: SyntaxNode<TokenType, SyntaxKind> | SyntaxToken<TokenType, SyntaxKind>, depth: number) => {
+    const indent = "  ".repeat(depth);
+    if (element instanceof SyntaxToken) {
+      const name = tokenTypes[element.type() as unknown as number];
+      lines.push(`${indent}${name}@${rangeText(element.textRange())} ${JSON.stringify(element.text())}`);
+      return;
+    }
+    const name = kinds[element.kind() as unknown as number];
+    const data = element.green.syntaxData === null ? "" : ` data=${JSON.stringify(element.green.syntaxData)}`;
+    lines.push(`${indent}${name}@${rangeText(element.textRange())}${data}`);
+    for (const child of element.childrenWithTokens()) {
+      visit(child, depth + 1);
+    }
+  };
+  visit(SyntaxNode.root(root), 0);
+  return lines.join("\n");
+}
+
+// (`shift` is added to the offsets of the tokens, see ParseTreeNode.shifts)
+function elementToJSON<TokenType, SyntaxKind>(element: TokenOrNode<TokenType, SyntaxKind>, tokenTypes: EnumObject, kinds: EnumObject, shift: number): JSONNode | JSONToken {
+  if (isToken(element)) {
+    let token: JSONToken = {
+      type: tokenTypes[element.type as unknown as number] as string,
+      text: element.source,
+      range: [element.range.start + shift, element.range.end + shift],
+    };
+    if (element.tokenData !== null) {
+      token.data = element.tokenData;
+    }
+    return token;
+  }
+  let node: JSONNode = {
+    kind: kinds[element.kind as unknown as number] as string,
+    children: element.children.map((child, i) => elementToJSON(child, tokenTypes, kinds, shift + childShift(element, i))),
+  };
+  if (element.syntaxData !== null) {
+    node.data = element.syntaxData;
+  }
+  return node;
+}
+
+export function treeToJSON<TokenType, SyntaxKind>(root: ParseTreeNode<TokenType, SyntaxKind>, tokenTypes: EnumObject, kinds: EnumObject): JSONNode {
+  return elementToJSON(root, tokenTypes, kinds, 0) as JSONNode;
+}
+
+function enumValue(e: EnumObject, name: unknown, what: string): number {
+  const value = typeof name === "string" ? e[name] : undefined;
+  if (typeof value !== "number") {
+    throw new DeserializeError(`Unknown ${what} ${JSON.stringify(name)}`);
+  }
+  return value;
+}
+
+function elementFromJSON<TokenType, SyntaxKind>(json: any, tokenTypes: EnumObject, kinds: EnumObject): TokenOrNode<TokenType, SyntaxKind> {
+  if (typeof json !== "object" || json === null) {
+    throw new DeserializeError(`Expected a node or token, found ${JSON.stringify(json)}`);
+  }
+  if ("type" in json) {
+    const range = json.range;
+    if (!Array.isArray(range) || range.length !== 2 || typeof json.text !== "string") {
+      throw new DeserializeError(`Malformed token ${JSON.stringify(json)}`);
+    }
+    const token: Token<TokenType> = {
+      type: enumValue(tokenTypes, json.type, "token type") as unknown as TokenType,
+      tokenData: json.data ?? null,
+      source: json.text,
+      offset: range[0],
+      range: { start: range[0], end: range[1] },
+    };
+    return token;
+  }
+  if (!Array.isArray(json.children)) {
+    throw new DeserializeError(`Malformed node ${JSON.stringify(json)}`);
+  }
+  return {
+    kind: enumValue(kinds, json.kind, "node kind") as unknown as SyntaxKind,
+    children: json.children.map((child: any) => elementFromJSON<TokenType, SyntaxKind>(child, tokenTypes, kinds)),
+    syntaxData: json.data ?? null,
+  };
+}
+
+// the inverse of treeToJSON (throws a DeserializeError if the JSON isn't a valid tree)
+export function treeFromJSON<TokenType, SyntaxKind>(json: JSONNode, tokenTypes: EnumObject, kinds: EnumObject): ParseTreeNode<TokenType, SyntaxKind> {
+  const root = elementFromJSON<TokenType, SyntaxKind>(json, tokenTypes, kinds);
+  if (isToken(root)) {
+    throw new DeserializeError("Expected a node at the root of the tree");
+  }
+  return root;
+}
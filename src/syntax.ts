@@ -0,0 +1,265 @@
+// A "red tree" layer over parse trees (similar to a Rowan SyntaxNode)
+// Parse tree nodes only know about their children, so these wrappers additionally keep track
+// of their parent, their position within the parent, and their absolute text range.
+// Wrappers are cheap and created on demand; the underlying parse tree is never modified.
+// Token offsets may be shifted by the nodes above them (see ParseTreeNode.shifts), so each wrapper
+// also keeps track of the total shift of its tokens.
+import { Token } from "./lexer"
+import { ParseTreeNode, TokenOrNode, isToken, childShift, concatParseTree } from "./parser"
+import { Maybe, TextRange } from "./util"
+
+export type SyntaxElement<TokenType, SyntaxKind> = SyntaxNode<TokenType, SyntaxKind> | SyntaxToken<TokenType, SyntaxKind>
+
+// offset of the first token in a subtree (if there is one), without the shift of the subtree itself
+function firstOffset<TokenType, SyntaxKind>(green: TokenOrNode<TokenType, SyntaxKind>): Maybe<number> {
+  if (isToken(green)) {
+    return green.range.start;
+  }
+  for (let i = 0; i < green.children.length; i++) {
+    const offset = firstOffset(green.children[i]);
+    if (offset !== null) {
+      return offset + childShift(green, i);
+    }
+  }
+  return null;
+}
+
+// end offset of the last token in a subtree (if there is one), without the shift of the subtree itself
+function lastEnd<TokenType, SyntaxKind>(green: TokenOrNode<TokenType, SyntaxKind>): Maybe<number> {
+  if (isToken(green)) {
+    return green.range.end;
+  }
+  for (let i = green.children.length - 1; i >= 0; i--) {
+    const end = lastEnd(green.children[i]);
+    if (end !== null) {
+      return end + childShift(green, i);
+    }
+  }
+  return null;
+}
+
+// Tokens store their own offsets, so ranges are computed from the tokens rather than by summing
+// up text lengths (some parse trees, like the math ones, leave out trivia and punctuation).
+// Nodes without any tokens (such as missing nodes) get an empty range at `pos`.
+function greenRange<TokenType, SyntaxKind>(green: TokenOrNode<TokenType, SyntaxKind>, pos: number, shift: number): TextRange {
+  const start = firstOffset(green);
+  if (start === null) {
+    return { start: pos, end: pos };
+  }
+  return { start: start + shift, end: lastEnd(green)! + shift };
+}
+
+function contains(range: TextRange, offset: number) {
+  return range.start <= offset && offset < range.end;
+}
+
+export class SyntaxToken<TokenType, SyntaxKind> {
+  green: Token<TokenType>;
+  parentNode: SyntaxNode<TokenType, SyntaxKind>;
+  index: number; // index within the parent's children
+  shift: number; // added to the offsets of the token
+
+  constructor(green: Token<TokenType>, parent: SyntaxNode<TokenType, SyntaxKind>, index: number, shift: number) {
+    this.green = green;
+    this.parentNode = parent;
+    this.index = index;
+    this.shift = shift;
+  }
+
+  type(): TokenType {
+    return this.green.type;
+  }
+
+  text(): string {
+    return this.green.source;
+  }
+
+  textRange(): TextRange {
+    const range = this.green.range;
+    return this.shift === 0 ? range : { start: range.start + this.shift, end: range.end + this.shift };
+  }
+
+  parent(): SyntaxNode<TokenType, SyntaxKind> {
+    return this.parentNode;
+  }
+
+  // ancestors, starting from the parent node
+  ancestors(): SyntaxNode<TokenType, SyntaxKind>[] {
+    return this.parentNode.ancestors();
+  }
+
+  nextSiblingOrToken(): Maybe<SyntaxElement<TokenType, SyntaxKind>> {
+    return this.parentNode.childAt(this.index + 1);
+  }
+
+  prevSiblingOrToken(): Maybe<SyntaxElement<TokenType, SyntaxKind>> {
+    return this.parentNode.childAt(this.index - 1);
+  }
+}
+
+export class SyntaxNode<TokenType, SyntaxKind> {
+  green: ParseTreeNode<TokenType, SyntaxKind>;
+  parentNode: Maybe<SyntaxNode<TokenType, SyntaxKind>>;
+  index: number; // index within the parent's children
+  range: TextRange;
+  shift: number; // added to the offsets of the tokens below the node
+
+  constructor(green: ParseTreeNode<TokenType, SyntaxKind>, parent: Maybe<SyntaxNode<TokenType, SyntaxKind>>, index: number, range: TextRange, shift: number) {
+    this.green = green;
+    this.parentNode = parent;
+    this.index = index;
+    this.range = range;
+    this.shift = shift;
+  }
+
+  static root<TokenType, SyntaxKind>(green: ParseTreeNode<TokenType, SyntaxKind>): SyntaxNode<TokenType, SyntaxKind> {
+    return new SyntaxNode(green, null, 0, greenRange(green, 0, 0), 0);
+  }
+
+  kind(): SyntaxKind {
+    return this.green.kind;
+  }
+
+  text(): string {
+    return concatParseTree(this.green);
+  }
+
+  textRange(): TextRange {
+    return this.range;
+  }
+
+  parent(): Maybe<SyntaxNode<TokenType, SyntaxKind>> {
+    return this.parentNode;
+  }
+
+  // this node, followed by its parent, grandparent, etc. (like Rowan)
+  ancestors(): SyntaxNode<TokenType, SyntaxKind>[] {
+    let result: SyntaxNode<TokenType, SyntaxKind>[] = [];
+    let node: Maybe<SyntaxNode<TokenType, SyntaxKind>> = this;
+    while (node !== null) {
+      result.push(node);
+      node = node.parentNode;
+    }
+    return result;
+  }
+
+  childrenWithTokens(): SyntaxElement<TokenType, SyntaxKind>[] {
+    let result: SyntaxElement<TokenType, SyntaxKind>[] = [];
+    let pos = this.range.start;
+    this.green.children.forEach((child, i) => {
+      const element = this.wrap(child, i, pos);
+      pos = element.textRange().end;
+      result.push(element);
+    });
+    return result;
+  }
+
+  // child nodes only (tokens are skipped)
+  children(): SyntaxNode<TokenType, SyntaxKind>[] {
+    return this.childrenWithTokens().filter((e): e is SyntaxNode<TokenType, SyntaxKind> => e instanceof SyntaxNode);
+  }
+
+  // (only this child is wrapped, so walking through the siblings of a node is linear)
+  childAt(index: number): Maybe<SyntaxElement<TokenType, SyntaxKind>> {
+    if (index < 0 || index >= this.green.children.length) {
+      return null;
+    }
+    const green = this.green.children[index];
+    // an empty child is placed at the end of the closest child before it with any tokens
+    let pos = this.range.start;
+    for (let i = index - 1; i >= 0 && !isToken(green) && firstOffset(green) === null; i--) {
+      const end = lastEnd(this.green.children[i]);
+      if (end !== null) {
+        pos = end + this.shift + childShift(this.green, i);
+        break;
+      }
+    }
+    return this.wrap(green, index, pos);
+  }
+
+  nextSiblingOrToken(): Maybe<SyntaxElement<TokenType, SyntaxKind>> {
+    return this.parentNode === null ? null : this.parentNode.childAt(this.index + 1);
+  }
+
+  prevSiblingOrToken(): Maybe<SyntaxElement<TokenType, SyntaxKind>> {
+    return this.parentNode === null ? null : this.parentNode.childAt(this.index - 1);
+  }
+
+  // the next sibling which is a node (tokens are skipped)
+  nextSibling(): Maybe<SyntaxNode<TokenType, SyntaxKind>> {
+    if (this.parentNode === null) {
+      return null;
+    }
+    const siblings = this.parentNode.green.children;
+    for (let i = this.index + 1; i < siblings.length; i++) {
+      if (!isToken(siblings[i])) {
+        return this.parentNode.childAt(i) as SyntaxNode<TokenType, SyntaxKind>;
+      }
+    }
+    return null;
+  }
+
+  // the previous sibling which is a node (tokens are skipped)
+  prevSibling(): Maybe<SyntaxNode<TokenType, SyntaxKind>> {
+    if (this.parentNode === null) {
+      return null;
+    }
+    const siblings = this.parentNode.green.children;
+    for (let i = this.index - 1; i >= 0; i--) {
+      if (!isToken(siblings[i])) {
+        return this.parentNode.childAt(i) as SyntaxNode<TokenType, SyntaxKind>;
+      }
+    }
+    return null;
+  }
+
+  // this node and every node below it, in preorder
+  descendants(): SyntaxNode<TokenType, SyntaxKind>[] {
+    let result: SyntaxNode<TokenType, SyntaxKind>[] = [];
+    let stack: SyntaxNode<TokenType, SyntaxKind>[] = [this];
+    while (stack.length > 0) {
+      const node = stack.pop()!;
+      result.push(node);
+      stack.push(...node.children().reverse());
+    }
+    return result;
+  }
+
+  // this node and every node or token below it, in preorder
+  descendantsWithTokens(): SyntaxElement<TokenType, SyntaxKind>[] {
+    let result: SyntaxElement<TokenType, SyntaxKind>[] = [];
+    let stack: SyntaxElement<TokenType, SyntaxKind>[] = [this];
+    while (stack.length > 0) {
+      const element = stack.pop()!;
+      result.push(element);
+      if (element instanceof SyntaxNode) {
+        stack.push(...element.childrenWithTokens().reverse());
+      }
+    }
+    return result;
+  }
+
+  // the deepest node or token whose range contains the given offset
+  // (returns this node if none of the children contain the offset)
+  coveringElement(offset: number): SyntaxElement<TokenType, SyntaxKind> {
+    let node: SyntaxNode<TokenType, SyntaxKind> = this;
+    while (true) {
+      const child = node.childrenWithTokens().find((e) => contains(e.textRange(), offset));
+      if (child === undefined) {
+        return node;
+      }
+      if (child instanceof SyntaxToken) {
+        return child;
+      }
+      node = child;
+    }
+  }
+
+  private wrap(green: TokenOrNode<TokenType, SyntaxKind>, index: number, pos: number): SyntaxElement<TokenType, SyntaxKind> {
+    const shift = this.shift + childShift(this.green, index);
+    if (isToken(green)) {
+      return new SyntaxToken(green, this, index, shift);
+    }
+    return new SyntaxNode(green, this, index, greenRange(green, pos, shift), shift);
+  }
+}
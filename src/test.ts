@@ -0,0 +1,669 @@
+// Consistency checks, which exit with a non-zero status on failure
+// Run with `make test`
+import { Lexer, LexError, LexFns, lexUnknown } from "./lexer"
+import { ParseTreeNode, TokenOrNode, isNode, isToken, parseTreeEquals } from "./parser"
+import { SyntaxNode, SyntaxToken } from "./syntax"
+import { Command, DEFAULT_CATCODES, Environment, Formula, LATEX_QUERY, LatexLexer, Root, SyntaxKind, TokenType, cast, catcodesFor, parseLatex } from "./latex"
+import { reparseLatex } from "./incremental"
+import { CommandRegistry, STANDARD_COMMANDS, signature } from "./commands"
+import { MacroKind, collectMacros, macroBodyText, macroTable, registerMacros } from "./macros"
+import { expandMacros } from "./expand"
+import { LineIndex, ColumnEncoding } from "./lineindex"
+import { MathRegionKind, extractMath } from "./extract"
+import { DeserializeError, JSONNode, dumpTree, treeFromJSON, treeToJSON } from "./serialize"
+import { Selector, SelectorError, select, walk } from "./query"
+import { MemoryFileSystem, Project } from "./project"
+import { ReferenceIndex, ReferenceKind } from "./references"
+import { Severity } from "./diagnostic"
+import { OutlineKind, flattenOutline, outline, sectionAt, theoremEnvironments } from "./outline"
+import * as math from "./mathmode"
+import { AssertionError, Maybe } from "./util"
+
+let failures = 0;
+
+// runs a check, which fails by throwing (see expect)
+function check(name: string, fn: () => void) {
+  try {
+    fn();
+  } catch (e) {
+    failures++;
+    console.error(`${name}: ${e instanceof Error ? e.message : String(e)}`);
+  }
+}
+
+// throws unless `actual` is structurally equal to `expected` (compared as JSON)
+function expect(actual: unknown, expected: unknown, what: string = "value") {
+  const a = JSON.stringify(actual);
+  const b = JSON.stringify(expected);
+  if (a !== b) {
+    throw new AssertionError(`expected ${what} to be ${b}, found ${a}`);
+  }
+}
+
+// Lexing
+
+check("lexer: unlexable input becomes Unknown tokens with diagnostics", () => {
+  const lexer = new LatexLexer("a ~#\\");
+  const tokens = lexer.tokenize();
+  expect(tokens.map((t) => [TokenType[t.type], t.source]), [["Word", "a"], ["Whitespace", " "], ["Word", "~#"], ["Unknown", "\\"]], "tokens");
+  expect(lexer.diagnostics.map((d) => [d.message, d.range]), [["Unexpected end of input after \\", { start: 4, end: 5 }]], "diagnostics");
+
+  const mathLexer = new math.MathLexer("f'? \u{1F600}");
+  expect(mathLexer.tokenize().map((t) => t.source).join(""), "f'? \u{1F600}", "math tokens");
+  // (a surrogate pair is kept in one token)
+  expect(mathLexer.diagnostics.map((d) => [d.message, d.range]), [
+    ["Unexpected character \"?\"", { start: 2, end: 3 }],
+    ["Unexpected character \"\u{1F600}\"", { start: 4, end: 6 }],
+  ], "math diagnostics");
+});
+
+check("lexer: line index with CRLF and code point columns", () => {
+  const index = new LineIndex("ab\r\n\u{1F600}c\rd\n");
+  expect(index.lineCount(), 4, "line count");
+  expect([0, 1, 2, 3].map((line) => index.lineRange(line)), [
+    { start: 0, end: 2 },
+    { start: 4, end: 7 },
+    { start: 8, end: 9 },
+    { start: 10, end: 10 },
+  ], "line ranges");
+  expect(index.lineCol(6), { line: 1, col: 2 }, "UTF-16 position");
+  expect(index.lineCol(6, ColumnEncoding.CodePoint), { line: 1, col: 1 }, "code point position");
+  expect(index.offset({ line: 1, col: 1 }, ColumnEncoding.CodePoint), 6, "offset of a code point position");
+  expect(index.offset({ line: 0, col: 5 }), 2, "offset past the end of a line");
+  expect(new LatexLexer("a\r\nb").getSourceLocation(3), [2, 1], "source location");
+});
+
+enum TestToken {
+  Number,
+  Word,
+  Keyword,
+  Space,
+  Unknown,
+}
+
+const TEST_LEX_FNS: LexFns<TestToken> = {
+  [TestToken.Number]: /^(\d)(\d)*/, // (capture groups don't shift the token types after them)
+  [TestToken.Word]: /[a-z]([a-z])*/,
+  [TestToken.Keyword]: /if/i, // (a different flag starts a new regex)
+  [TestToken.Space]: (lexer: Lexer<TestToken>, type: TestToken) => lexer.source[lexer.index] === " " ? lexer.emit(type, 1) : null,
+  [TestToken.Unknown]: lexUnknown,
+};
+
+check("lexer: lexing functions are compiled into sticky regexes", () => {
+  const lexer = new Lexer("12 ab IF x1!", TEST_LEX_FNS);
+  expect(lexer.tokenize().map((t) => [TestToken[t.type], t.source]), [
+    ["Number", "12"], ["Space", " "], ["Word", "ab"], ["Space", " "], ["Keyword", "IF"],
+    ["Space", " "], ["Word", "x"], ["Number", "1"], ["Unknown", "!"],
+  ], "tokens");
+  for (const regex of [/a$/, /a|^b/, /\b^/]) {
+    let error: unknown = null;
+    try {
+      new Lexer("a", { ...TEST_LEX_FNS, [TestToken.Number]: regex });
+    } catch (e) {
+      error = e;
+    }
+    expect(error instanceof LexError, true, `LexError for ${regex}`);
+  }
+  // (escaped anchors, and anchors in character classes, are just characters)
+  const escaped = new Lexer("$^", { ...TEST_LEX_FNS, [TestToken.Number]: /\$[$^]/ });
+  expect(escaped.tokenize().map((t) => TestToken[t.type]), ["Number"], "tokens with escaped anchors");
+});
+
+// the names of the commands in some LaTeX text
+function commandNames(text: string, catcodes = DEFAULT_CATCODES): string[] {
+  return LatexLexer.tokenize(text, catcodes).filter((t) => t.type === TokenType.Command).map((t) => t.tokenData);
+}
+
+check("lexer: catcode changes", () => {
+  expect(commandNames("\\a@b \\makeatletter \\a@b \\makeatother \\a@b"), ["a", "makeatletter", "a@b", "makeatother", "a"], "\\makeatletter");
+  expect(commandNames("\\ExplSyntaxOn \\tl_set:Nn \\ExplSyntaxOff \\tl_set:Nn"), ["ExplSyntaxOn", "tl_set:Nn", "ExplSyntaxOff", "tl"], "\\ExplSyntaxOn");
+  expect([commandNames("\\a@b", catcodesFor("x.cls")), commandNames("\\a@b", catcodesFor("x.tex"))], [["a@b"], ["a"]], "catcodes of packages and classes");
+  // (a \makeatletter in verbatim text changes nothing)
+  expect(new Root(parseLatex("\\begin{verbatim}\\makeatletter\\end{verbatim}\\a@b").root).commands().map((command) => command.name()), ["a"], "after a verbatim environment");
+  expect(new Root(parseLatex("\\verb|\\makeatletter|\\a@b").root).commands().map((command) => command.name()), ["verb", "a"], "after \\verb");
+  // (inserting a catcode change relexes the rest of the document)
+  const text = "$x$ \\a@b {c}";
+  const edited = reparseLatex(text, parseLatex(text), { range: { start: 4, end: 4 }, text: "\\makeatletter " });
+  expect(parseTreeEquals(edited.root, parseLatex("$x$ \\makeatletter \\a@b {c}").root), true, "reparse after inserting \\makeatletter");
+});
+
+// LaTeX parsing
+
+// the kind of each top-level node of a document, followed by the kinds of its child nodes (tokens are skipped)
+function shapes(root: ParseTreeNode<TokenType, SyntaxKind>): string[][] {
+  return SyntaxNode.root(root).children().map((node) => [SyntaxKind[node.kind()], ...node.children().map((child) => SyntaxKind[child.kind()])]);
+}
+
+check("latex: a stray } inside an environment", () => {
+  const result = parseLatex("\\begin{document}\nHello } world\n\\section{A}\n\\end{document}");
+  expect(result.diagnostics.map((d) => [d.message, d.range]), [["Unmatched punctuation", { start: 23, end: 24 }]], "diagnostics");
+  const root = SyntaxNode.root(result.root);
+  expect(root.children().map((node) => SyntaxKind[node.kind()]), ["Environment"], "top-level nodes");
+  const section = root.descendants().find((node) => node.kind() === SyntaxKind.Command && node.text().startsWith("\\section"));
+  expect(section?.parent()?.kind(), SyntaxKind.Environment, "parent of \\section");
+});
+
+check("latex: a } closes a group around an environment", () => {
+  const result = parseLatex("{\\begin{x} a } b");
+  expect(result.diagnostics.map((d) => d.message), ["Unclosed environment \\begin{x}"], "diagnostics");
+  expect(SyntaxNode.root(result.root).children().map((node) => SyntaxKind[node.kind()]), ["CurlyGroup", "Text"], "top-level nodes");
+});
+
+check("latex: math delimiters", () => {
+  const result = parseLatex("\\(a\\) $$b$$ \\begin{align} c \\end{align} $d$ \\[e\\]");
+  expect(result.diagnostics, [], "diagnostics");
+  expect(shapes(result.root), [["Formula", "Text"], ["Equation", "Text"], ["MathEnvironment", "Begin", "Text", "End"], ["Formula", "Text"], ["Equation", "Text"]]);
+  const mismatched = parseLatex("\\(a\\] b");
+  expect(shapes(mismatched.root), [["Formula", "Text", "Error", "Text", "Missing"]]);
+  expect(mismatched.diagnostics.map((d) => [d.message, d.range]), [
+    ["Unexpected \\] in math mode", { start: 3, end: 5 }],
+    ["Expected \\), found end of input instead", { start: 7, end: 7 }],
+  ], "diagnostics of \\(a\\]");
+  // (the $$ after $a closes the formula and opens another one)
+  expect(parseLatex("$a$$ b").diagnostics.map((d) => d.message), ["Expected $, found end of input instead"], "diagnostics of $a$$");
+});
+
+check("latex: mismatched and unclosed environments", () => {
+  const diagnostics = (text: string) => parseLatex(text).diagnostics.map((d) =>
+    [d.message, d.range, ...(d.related ?? []).map((related) => [related.message, related.range])]);
+  expect(diagnostics("\\begin{theorem} a \\end{proof}"), [
+    ["\\end{proof} does not match \\begin{theorem}", { start: 18, end: 29 }, ["\\begin{theorem} is here", { start: 0, end: 15 }]],
+  ]);
+  expect(diagnostics("\\begin{align*} x \\end{align}"), [
+    ["\\end{align} does not match \\begin{align*}", { start: 17, end: 28 }, ["\\begin{align*} is here", { start: 0, end: 14 }]],
+  ]);
+  // (an \end of an enclosing environment closes that one instead)
+  const unclosed = parseLatex("\\begin{a}\\begin{b} x \\end{a}");
+  expect(shapes(unclosed.root), [["Environment", "Begin", "Environment", "End"]]);
+  expect(diagnostics("\\begin{a}\\begin{b} x \\end{a}"), [
+    ["Unclosed environment \\begin{b}", { start: 9, end: 18 }, ["\\end{a} closes an enclosing environment", { start: 21, end: 25 }]],
+  ]);
+  expect(diagnostics("\\end{x} y"), [["Unmatched \\end{x}", { start: 0, end: 7 }]]);
+  const names = SyntaxNode.root(parseLatex("\\begin{my-env*} \\end{my-env*}").root).descendants()
+    .filter((node) => node.kind() === SyntaxKind.Environment).map((node) => new Environment(node.green).name());
+  expect(names, ["my-env*"], "environment names");
+});
+
+check("latex: typed wrappers", () => {
+  const result = parseLatex("\\section*[short]{Title} \\begin{theorem}[Main] body $a$ \\end{theorem} \\verb|v| \\[b");
+  const root = new Root(result.root);
+  expect(root.commands().map((command) => [command.name(), command.starred(), command.args().map((arg) => arg.contentText()), command.optionalArgs().map((arg) => arg.contentText()), command.verbatim()?.text() ?? null]), [
+    ["section", true, ["Title"], ["short"], null],
+    ["verb", false, [], [], "v"],
+  ], "commands");
+  expect(root.environments().map((env) => [env.name(), env.math(), env.begin()!.optionalArgs().map((arg) => arg.contentText()), env.bodyText()]), [
+    ["theorem", false, ["Main"], " body $a$ "],
+  ], "environments");
+  expect(root.formulas().map((formula) => [formula instanceof Formula, formula.delimiter(), formula.bodyText(), formula.closed()]), [
+    [true, "$", "a", true],
+    [false, "\\[", "b", false],
+  ], "formulas");
+  expect(result.root.children.filter(isNode).map((node) => cast(node).constructor.name), ["Command", "Environment", "Command", "Equation"], "wrapper classes");
+  let error: unknown = null;
+  try {
+    new Command(result.root);
+  } catch (e) {
+    error = e;
+  }
+  expect(error instanceof AssertionError, true, "AssertionError for a node of another kind");
+});
+
+// Commands and macros
+
+// the shapes of the top-level nodes of a document without errors
+function commandShapes(text: string, registry: CommandRegistry = STANDARD_COMMANDS): string[][] {
+  const result = parseLatex(text, registry);
+  expect(result.diagnostics, [], "diagnostics");
+  return shapes(result.root);
+}
+
+check("commands: arguments follow the signature", () => {
+  expect(commandShapes("\\textbf{a} (see below)"), [["Command", "CurlyGroup"], ["MixedGroup", "Text"]]);
+  expect(commandShapes("\\item Hello"), [["Command"], ["Text"]]);
+  expect(commandShapes("\\foo[x]{y}{z}"), [["Command"], ["MixedGroup", "Text"], ["CurlyGroup", "Text"], ["CurlyGroup", "Text"]]);
+  const registry = STANDARD_COMMANDS.clone();
+  registry.define(signature("foo", "om"));
+  expect(commandShapes("\\foo[x]{y}{z}", registry), [["Command", "BracketGroup", "CurlyGroup"], ["CurlyGroup", "Text"]]);
+  expect(STANDARD_COMMANDS.get("foo"), null, "signature in the standard registry");
+});
+
+check("commands: verbatim arguments and environments", () => {
+  expect(commandShapes("\\verb|a}$b| c"), [["Command", "Verbatim"], ["Text"]]);
+  expect(commandShapes("\\url{a_b#c}$x$"), [["Command", "CurlyGroup"], ["Formula", "Text"]]);
+  expect(commandShapes("\\begin{verbatim}\n$x} \\end{itemize}\n\\end{verbatim} $y$"), [["Environment", "Begin", "Verbatim", "End"], ["Formula", "Text"]]);
+  expect(commandShapes("\\begin{lstlisting}[x] }\\end{lstlisting}"), [["Environment", "Begin", "Verbatim", "End"]]);
+  expect(commandShapes("\\begin{minted}{python}\nx = {\n\\end{minted}"), [["Environment", "Begin", "Verbatim", "End"]]);
+  expect(commandShapes("\\begin{comment}$ } \\end{comment}"), [["Environment", "Begin", "Verbatim", "End"]]);
+  const root = new Root(parseLatex("\\verb*+x y+ \\begin{verbatim}a}b\\end{verbatim}").root);
+  expect(root.commands().map((command) => [command.starred(), command.verbatim()?.text() ?? null]), [[true, "x y"]], "\\verb* argument");
+  expect(root.environments().map((env) => env.bodyText()), ["a}b"], "verbatim body");
+  expect(parseLatex("\\verb|abc").diagnostics.map((d) => [d.message, d.range]), [["Unterminated verbatim argument (expected |)", { start: 5, end: 9 }]], "unterminated \\verb");
+  const unclosed = parseLatex("\\begin{verbatim} a");
+  expect(shapes(unclosed.root), [["Environment", "Begin", "Verbatim", "Missing"]]);
+  expect(unclosed.diagnostics.map((d) => d.message), ["Unclosed environment \\begin{verbatim}"], "unclosed verbatim environment");
+});
+
+const PREAMBLE = "\\newcommand{\\R}{\\mathbb{R}}\n\\newcommand\\norm[2][p]{\\|#2\\|_#1}\n\\DeclareMathOperator*{\\tr}{tr}\n\\def\\a{\\b}\\def\\b{\\a}";
+
+check("macros: definitions are collected and registered", () => {
+  const defs = collectMacros(parseLatex(PREAMBLE).root);
+  expect(defs.map((def) => [MacroKind[def.kind], def.name, def.arity, def.defaultArg, def.operator, def.starred]), [
+    ["NewCommand", "R", 0, null, false, false],
+    ["NewCommand", "norm", 2, "p", false, false],
+    ["DeclareMathOperator", "tr", 0, null, true, true],
+    ["Def", "a", 0, null, false, false],
+    ["Def", "b", 0, null, false, false],
+  ], "definitions");
+  expect(defs.map(macroBodyText), ["\\mathbb{R}", "\\|#2\\|_#1", "tr", "\\b", "\\a"], "bodies");
+  const registry = STANDARD_COMMANDS.clone();
+  registerMacros(registry, defs);
+  expect(commandShapes("\\norm[q]{x} y", registry), [["Command", "BracketGroup", "CurlyGroup"], ["Text"]]);
+
+  // (a package of macros is read with @ as a letter)
+  const sty = parseLatex("\\newcommand{\\my@R}{\\mathbb{R}}", STANDARD_COMMANDS, catcodesFor("macros.sty"));
+  expect(collectMacros(sty.root).map((def) => def.name), ["my@R"], "names in a .sty file");
+});
+
+check("macros: expansion keeps track of the source", () => {
+  const table = macroTable(collectMacros(parseLatex(PREAMBLE).root));
+  const expand = (text: string) => {
+    const expansion = expandMacros(new math.MathLexer(text).tokenize(), table);
+    return [expansion.tokens.map((t) => t.source).join(""), expansion.diagnostics.map((d) => [d.message, d.range])];
+  };
+  expect(expand("\\norm{x} + \\R"), ["\\|x\\|_p + \\mathbb{R}", []]);
+  expect(expand("\\norm[q]{x}"), ["\\|x\\|_q", []]);
+  expect(expand("\\a"), ["\\a", [["Recursive expansion of \\a", { start: 0, end: 2 }]]]);
+  expect(expand("\\norm"), ["\\|\\|_p", [["Missing argument 2 of \\norm", { start: 0, end: 5 }]]]);
+
+  const expansion = expandMacros(new math.MathLexer("\\norm[q]{x}").tokenize(), table);
+  expect(expansion.tokens.map((t) => t.range), [
+    { start: 0, end: 11 }, { start: 9, end: 10 }, { start: 0, end: 11 }, { start: 0, end: 11 }, { start: 6, end: 7 },
+  ], "token ranges");
+  expect(expansion.origins.map((origin) => origin.macros), [["norm"], [], ["norm"], ["norm"], []], "origins");
+});
+
+// Syntax trees
+
+check("syntax: ranges and sibling navigation", () => {
+  const root = SyntaxNode.root(parseLatex("a {b} \\foo{c}{} d").root);
+  for (const node of root.descendants()) {
+    const children = node.childrenWithTokens();
+    children.forEach((child, i) => {
+      expect(node.childAt(i)!.textRange(), child.textRange(), `range of child ${i}`);
+      expect(child.parent() === node, true, "parent pointer");
+    });
+    const nodes = node.children();
+    nodes.forEach((child, i) => {
+      expect(child.nextSibling()?.index ?? null, nodes[i + 1]?.index ?? null, "next sibling");
+      expect(child.prevSibling()?.index ?? null, nodes[i - 1]?.index ?? null, "previous sibling");
+    });
+  }
+  const empty = root.descendants().find((node) => node.kind() === SyntaxKind.CurlyGroup && node.text() === "{}")!;
+  expect(empty.textRange(), { start: 13, end: 15 }, "range of {}");
+  const token = root.coveringElement(14);
+  expect(token instanceof SyntaxToken ? token.text() : null, "}", "token at 14");
+});
+
+check("query: selectors", () => {
+  const root = parseLatex("\\section{A}\\label{a} \\begin{proof} $x$ \\label{b} \\end{proof} $y$ \\begin{align*} z \\end{align*}").root;
+  const texts = (selector: string) => select(root, selector, LATEX_QUERY).map((node) => node.text());
+  expect(texts("Command[name=label]"), ["\\label{a}", "\\label{b}"]);
+  expect(texts("Environment[name=proof] Formula"), ["$x$"]);
+  expect(texts("Root > Formula"), ["$y$"]);
+  expect(texts("CurlyGroup, Formula"), ["{A}", "{a}", "$x$", "{b}", "$y$"]);
+  expect(texts("MathEnvironment[name=\"align*\"]"), ["\\begin{align*} z \\end{align*}"]);
+  expect(texts("*[math]"), ["\\begin{align*} z \\end{align*}"]);
+  for (const [selector, message] of [
+    ["Foo", "Unknown node kind Foo at offset 3 of selector \"Foo\""],
+    ["Command[name", "Expected ] at offset 12 of selector \"Command[name\""],
+    ["Command >", "Expected a name at offset 9 of selector \"Command >\""],
+  ]) {
+    let error: unknown = null;
+    try {
+      new Selector(selector, LATEX_QUERY);
+    } catch (e) {
+      error = e;
+    }
+    expect(error instanceof SelectorError ? error.message : null, message, `error for ${selector}`);
+  }
+});
+
+check("query: walking skips children when enter returns false", () => {
+  let events: string[] = [];
+  walk(parseLatex("\\begin{proof} $x$ \\end{proof} $y$").root, {
+    enter: { [SyntaxKind.Environment]: (node) => { events.push(`enter ${SyntaxKind[node.kind()]}`); return false; } },
+    leave: { [SyntaxKind.Formula]: (node) => { events.push(`leave ${node.text()}`); } },
+  });
+  expect(events, ["enter Environment", "leave $y$"], "events");
+});
+
+check("serialize: dumps and JSON round trips", () => {
+  const text = "\\section{A} $x^2$ % c\n\\verb|v|";
+  const root = parseLatex(text).root;
+  const json = JSON.parse(JSON.stringify(treeToJSON(root, TokenType, SyntaxKind)));
+  expect(parseTreeEquals(treeFromJSON(json, TokenType, SyntaxKind), root), true, "LaTeX round trip");
+  // (the shifted offsets of a reparsed tree are exported as they are)
+  const edited = reparseLatex(text, parseLatex(text), { range: { start: 10, end: 10 }, text: "BC" });
+  expect(treeToJSON(edited.root, TokenType, SyntaxKind), treeToJSON(parseLatex("\\section{ABC} $x^2$ % c\n\\verb|v|").root, TokenType, SyntaxKind), "JSON of a reparsed tree");
+  const mathRoot = new math.MathParser(new math.MathLexer("\\frac{1}{2} + \\sum_{i=1}^n i")).parse();
+  const mathJSON = JSON.parse(JSON.stringify(treeToJSON(mathRoot, math.TokenType, math.SyntaxKind)));
+  expect(parseTreeEquals(treeFromJSON(mathJSON, math.TokenType, math.SyntaxKind), mathRoot), true, "math round trip");
+
+  expect(dumpTree(parseLatex("a {b}").root, TokenType, SyntaxKind).split("\n"), [
+    "Root@0..5",
+    "  Text@0..2",
+    "    Word@0..1 \"a\"",
+    "    Whitespace@1..2 \" \"",
+    "  CurlyGroup@2..5",
+    "    LeftCurly@2..3 \"{\"",
+    "    Text@3..4",
+    "      Word@3..4 \"b\"",
+    "    RightCurly@4..5 \"}\"",
+  ], "dump");
+
+  for (const [malformed, message] of [
+    [{ kind: "Nope", children: [] }, "Unknown node kind \"Nope\""],
+    [{ kind: "Root", children: [{ type: "Word", text: "a" }] }, "Malformed token {\"type\":\"Word\",\"text\":\"a\"}"],
+  ] as const) {
+    let error: unknown = null;
+    try {
+      treeFromJSON(malformed as unknown as JSONNode, TokenType, SyntaxKind);
+    } catch (e) {
+      error = e;
+    }
+    expect(error instanceof DeserializeError ? error.message : null, message, "error for malformed JSON");
+  }
+});
+
+// Projects
+
+check("project: path resolution and include cycles", () => {
+  const fs = new MemoryFileSystem({
+    "doc/main.tex": "\\input{preamble}\n\\include{chapters/one}\n\\input chapters/two.tex\n\\import{parts/}{three}\n\\input{missing}",
+    "doc/preamble.tex": "\\newcommand{\\vect}[1]{\\mathbf{#1}}",
+    "doc/chapters/one.tex": "One \\vect{v} \\subfile{sub}",
+    "doc/chapters/sub.tex": "Sub",
+    "doc/chapters/two.tex": "Two \\input{main}",
+    "doc/parts/three.tex": "Three \\input{four}",
+    "doc/parts/four.tex": "Four",
+  });
+  const project = Project.load(fs, "doc/main.tex");
+  expect(project.allFiles().map((file) => [file.path, file.inclusions.map((inclusion) => inclusion.path), file.diagnostics.map((d) => d.message)]), [
+    ["doc/main.tex", ["doc/preamble.tex", "doc/chapters/one.tex", "doc/chapters/two.tex", "doc/parts/three.tex", null], ["File not found: missing (tried doc/missing.tex, doc/missing)"]],
+    ["doc/preamble.tex", [], []],
+    ["doc/chapters/one.tex", ["doc/chapters/sub.tex"], []],
+    ["doc/chapters/sub.tex", [], []],
+    ["doc/chapters/two.tex", ["doc/main.tex"], ["Include cycle: doc/main.tex -> doc/chapters/two.tex -> doc/main.tex"]],
+    ["doc/parts/three.tex", ["doc/parts/four.tex"], []],
+    ["doc/parts/four.tex", [], []],
+  ], "files");
+  expect(project.text(), "\\newcommand{\\vect}[1]{\\mathbf{#1}}\nOne \\vect{v} Sub\nTwo \\input{main}\nThree Four\n\\input{missing}", "combined text");
+  // (a macro from another file is parsed with its arguments)
+  const one = SyntaxNode.root(project.file("doc/chapters/one.tex")!.root);
+  expect(one.descendants().filter((node) => node.kind() === SyntaxKind.Command).map((node) => node.text()), ["\\vect{v}", "\\subfile{sub}"], "commands in one.tex");
+});
+
+// References and outline
+
+check("references: definitions, references and diagnostics", () => {
+  const text = "\\section{A}\\label{sec:a}\n\\begin{theorem}\\label{thm:x}\\end{theorem}\n\\ref{sec:a} \\eqref{eq:missing} \\cref{sec:a, thm:y} \\cite{knuth} \\label{sec:a}\n\\bibitem{knuth} \\nocite{*}";
+  const index = ReferenceIndex.build([["main.tex", parseLatex(text).root]]);
+  expect(index.definitions.map((def) => [ReferenceKind[def.kind], def.name, def.container?.environment ?? null]), [
+    ["Label", "sec:a", null],
+    ["Label", "thm:x", "theorem"],
+    ["Label", "sec:a", null],
+    ["Citation", "knuth", null],
+  ], "definitions");
+  expect(index.references.map((ref) => [ref.command, ref.name]), [["ref", "sec:a"], ["eqref", "eq:missing"], ["cref", "sec:a"], ["cref", "thm:y"], ["cite", "knuth"]], "references");
+  expect(index.at("main.tex", text.indexOf("thm:y") + 1)?.nameRange, { start: 111, end: 116 }, "name under the cursor");
+  expect(index.diagnostics().get("main.tex")!.map((d) => [d.message, Severity[d.severity], d.range.start, (d.related ?? []).map((related) => related.range.start)]), [
+    ["Undefined reference eq:missing", "Warning", 86, []],
+    ["Undefined reference thm:y", "Warning", 111, []],
+    ["Duplicate label sec:a", "Warning", 18, [138]],
+    ["Unused label thm:x", "Hint", 47, []],
+    ["Duplicate label sec:a", "Warning", 138, [18]],
+  ], "diagnostics");
+  // (citations may be defined in a .bib file)
+  const bibliography = ReferenceIndex.build([["a.tex", parseLatex("\\cite{x} \\bibliography{refs}").root]]);
+  expect(bibliography.diagnostics().get("a.tex"), [], "diagnostics with a bibliography");
+});
+
+check("outline: sections and theorems", () => {
+  const text = "\\newtheorem{thm}{Theorem}\n\\section[Short]{Intro}\n\\begin{thm}[Main]x\\end{thm}\n\\subsection*{Sub}\n\\begin{lemma}y\\end{lemma}\n\\section{Next}\nz";
+  const root = parseLatex(text).root;
+  expect(theoremEnvironments(root).get("thm"), "Theorem", "declared theorem");
+  const entries = outline(root);
+  expect(entries.map((entry) => entry.title), ["Intro", "Next"], "top-level entries");
+  expect(flattenOutline(entries).map((entry) => [OutlineKind[entry.kind], entry.name, entry.level, entry.title, entry.shortTitle, entry.starred, entry.contentRange.start, entry.contentRange.end]), [
+    ["Section", "section", 1, "Intro", "Short", false, 26, 121],
+    ["Theorem", "thm", 2, "Main", null, false, 49, 76],
+    ["Section", "subsection", 2, "Sub", null, true, 77, 121],
+    ["Theorem", "lemma", 3, "Lemma", null, false, 95, 120],
+    ["Section", "section", 1, "Next", null, false, 121, text.length],
+  ], "flattened outline");
+  expect(sectionAt(entries, text.indexOf("y"))?.title, "Sub", "innermost section");
+  expect(sectionAt(entries, 0), null, "before the first section");
+});
+
+// a seeded pseudorandom number generator (Park-Miller), so that failures can be reproduced
+function generator(seed: number) {
+  return (n: number) => {
+    seed = (seed * 16807) % 2147483647;
+    return seed % n;
+  };
+}
+
+// bits of text that open or close groups, math, environments, verbatim, or catcode changes
+const SNIPPETS = [
+  "a", " ", "\n", "{", "}", "[", "]", "$", "$$", "\\[", "\\]", "\\(", "\\)", "\\foo", "%", "word ", "*", "*}",
+  "\\section", "\\url", "\\begin{x}", "\\end{x}", "\\end{y}", "\\begin{align}", "\\end{align}", "\\end{document}",
+  "\\verb|", "|", "\\verb*", "\\begin{verbatim}", "\\end{verbatim}",
+  "\\makeatletter", "\\makeatother", "\\@a", "@",
+];
+
+const INITIAL = "\\begin{document}\n{a {b} c} $x + y$ \\[ z \\] {d} \\(c\\) \\verb|v| \\begin{align*} x \\end{align*}\n\\end{document}";
+
+// Math mode
+
+// a math parse tree as nested arrays of node kinds and token text
+function mathElement(element: TokenOrNode<math.TokenType, math.SyntaxKind>): unknown {
+  return isToken(element) ? element.source : [math.SyntaxKind[element.kind], ...element.children.map(mathElement)];
+}
+
+// the parse tree of some math text (see mathElement), along with its diagnostics
+// (`functions` are the symbols known to be functions, see MathParser)
+function mathTree(text: string, functions: Set<string> = new Set()): [unknown, string[]] {
+  const parser = new math.MathParser(new math.MathLexer(text), functions);
+  const root = parser.parse();
+  return [root.children.map(mathElement), parser.diagnostics.map((d) => d.message)];
+}
+
+check("math: rows and cells are not multiplied together", () => {
+  expect(mathTree("a = b \\\\ c = d"), [[["Equal", "a", "=", "b"], "\\\\", ["Equal", "c", "=", "d"]], []]);
+  expect(mathTree("ax + b \\\\ cx + d"), [[["BinOp", ["ImplicitMul", "a", "x"], "+", "b"], "\\\\", ["BinOp", ["ImplicitMul", "c", "x"], "+", "d"]], []]);
+  expect(mathTree("x & y"), [["x", "&", "y"], []]);
+  expect(mathTree("a &= b"), [[["Equal", "a", "=", "b"]], []]);
+});
+
+// the typed wrapper of the first element of some math text
+function mathNode(text: string): Maybe<math.Mathmode> {
+  return math.cast(new math.MathParser(new math.MathLexer(text)).parse().children[0]);
+}
+
+check("math: prefix and postfix operators", () => {
+  expect(mathTree("-x + 1"), [[["BinOp", ["UnaryOp", "-", "x"], "+", "1"]], []]);
+  expect(mathTree("-x^2"), [[["UnaryOp", "-", ["BinOp", "x", "^", "2"]]], []]);
+  expect(mathTree("a - -b"), [[["BinOp", "a", "-", ["UnaryOp", "-", "b"]]], []]);
+  expect(mathTree("a \\pm b"), [[["BinOp", "a", "\\pm", "b"]], []]);
+  expect(mathTree("\\lnot a < b"), [[["UnaryOp", "\\lnot", ["Relation", "a", "<", "b"]]], []]);
+  expect(mathTree("-n!"), [[["UnaryOp", "-", ["PostfixOp", "n", "!"]]], []]);
+  expect(mathTree("f''"), [[["PostfixOp", ["PostfixOp", "f", "'"], "'"]], []]);
+  expect(mathTree("A^{T} + B^\\top"), [[["BinOp", ["PostfixOp", "A", "^", "{", "T", "}"], "+", ["PostfixOp", "B", "^", "\\top"]]], []]);
+  expect(mathTree("-"), [[["UnaryOp", "-", ["Missing"]]], ["Expected expression"]]);
+  const unary = mathNode("\\pm 3");
+  expect(unary instanceof math.UnaryOp ? [math.PrefixOp[unary.op()!], unary.operand() instanceof math.Literal] : null, ["PlusMinus", true], "UnaryOp wrapper");
+  const postfix = mathNode("A^T");
+  expect(postfix instanceof math.PostfixOp ? [math.PostfixOpKind[postfix.op()!], postfix.operand() instanceof math.Symbol] : null, ["Transpose", true], "PostfixOp wrapper");
+});
+
+check("math: implicit multiplication and function application", () => {
+  expect(mathTree("2x^2 + 1"), [[["BinOp", ["ImplicitMul", "2", ["BinOp", "x", "^", "2"]], "+", "1"]], []]);
+  expect(mathTree("2(x+1)"), [[["ImplicitMul", "2", ["Grouping", ["BinOp", "x", "+", "1"]]]], []]);
+  expect(mathTree("f(x)"), [[["ImplicitMul", "f", ["Grouping", "x"]]], []]);
+  expect(mathTree("\\sin x"), [[["Apply", "\\sin", "x"]], []]);
+  expect(mathTree("\\log_2 n"), [[["Apply", ["BinOp", "\\log", "_", "2"], "n"]], []]);
+  const functions = new Set(["f"]);
+  expect(mathTree("f(5x)", functions), [[["Apply", "f", ["Grouping", ["ImplicitMul", "5", "x"]]]], []]);
+  expect(mathTree("f x", functions), [[["ImplicitMul", "f", "x"]], []]);
+  expect(mathTree("f(x)g(x)", functions), [[["ImplicitMul", ["ImplicitMul", ["Apply", "f", ["Grouping", "x"]], "g"], ["Grouping", "x"]]], []]);
+  const apply = math.cast(new math.MathParser(new math.MathLexer("f^{-1}(y)"), functions).parse().children[0]);
+  expect(apply instanceof math.Apply ? [apply.name(), apply.argument() instanceof math.Grouping] : null, ["f", true], "Apply wrapper");
+  const operator = mathNode("\\operatorname{rank} A");
+  expect(operator instanceof math.Apply ? operator.name() : null, "rank", "name of an \\operatorname");
+});
+
+check("math: commands with arguments", () => {
+  expect(mathTree("\\frac{a+b}{2}"), [[["Frac", "\\frac", ["BinOp", "a", "+", "b"], "2"]], []]);
+  expect(mathTree("\\tfrac{1}{2}x"), [[["ImplicitMul", ["Frac", "\\tfrac", "1", "2"], "x"]], []]);
+  expect(mathTree("\\sqrt[n]{x+1}"), [[["Sqrt", "\\sqrt", "n", ["BinOp", "x", "+", "1"]]], []]);
+  expect(mathTree("\\hat x + \\mathbb{R}"), [[["BinOp", ["Accent", "\\hat", "x"], "+", ["Font", "\\mathbb", "R"]]], []]);
+  expect(mathTree("\\frac{a}"), [[["Frac", "\\frac", "a", ["Missing"]]], ["Expected argument"]]);
+  const frac = mathNode("\\dfrac12");
+  expect(frac instanceof math.Frac ? [frac.command(), frac.numerator() instanceof math.Literal, frac.denominator() instanceof math.Literal] : null, ["dfrac", true, true], "Frac wrapper");
+  const sqrt = mathNode("\\sqrt{x}");
+  expect(sqrt instanceof math.Sqrt ? [sqrt.index(), sqrt.radicand() instanceof math.Symbol] : null, [null, true], "Sqrt wrapper");
+  const binom = mathNode("\\binom{n}{k}");
+  expect(binom instanceof math.Binom ? [binom.command(), binom.top() instanceof math.Symbol, binom.bottom() instanceof math.Symbol] : null, ["binom", true, true], "Binom wrapper");
+  const accent = mathNode("\\overline{z}");
+  expect(accent instanceof math.Accent ? accent.accent() : null, "overline", "Accent wrapper");
+  const font = mathNode("\\mathcal A");
+  expect(font instanceof math.Font ? font.font() : null, "mathcal", "Font wrapper");
+  const operator = mathNode("\\operatorname*{argmax}");
+  expect(operator instanceof math.OperatorName ? [operator.name(), operator.starred()] : null, ["argmax", true], "OperatorName wrapper");
+});
+
+check("math: relation chains", () => {
+  expect(mathTree("1+1 = 2"), [[["Equal", ["BinOp", "1", "+", "1"], "=", "2"]], []]);
+  expect(mathTree("a = b = c"), [[["Equal", "a", "=", "b", "=", "c"]], []]);
+  expect(mathTree("0 < x \\le y < 1"), [[["Relation", "0", "<", "x", "\\le", "y", "<", "1"]], []]);
+  expect(mathTree("x =")[1], ["Expected expression"], "diagnostics of a missing operand");
+  const chain = mathNode("a \\approx b \\equiv c \\subseteq d");
+  expect(chain instanceof math.Relation ? [chain.isEquality(), chain.ops().map((op) => math.RelationOp[op!])] : null, [false, ["Approx", "Equiv", "SubsetEq"]], "Relation wrapper");
+  const comparisons = chain instanceof math.Relation ? chain.comparisons() : [];
+  const symbol = (operand: Maybe<math.Mathmode>) => operand instanceof math.Symbol ? operand.name() : null;
+  expect(comparisons.map(([lhs, op, rhs]) => [symbol(lhs), math.RelationOp[op!], symbol(rhs)]), [["a", "Approx", "b"], ["b", "Equiv", "c"], ["c", "SubsetEq", "d"]], "comparisons");
+  const equality = mathNode("x \\neq y \\mid z \\to 0");
+  expect(equality instanceof math.Relation ? equality.ops().map((op) => math.RelationOp[op!]) : null, ["NotEqual", "Divides", "To"], "relation commands");
+});
+
+check("math: big operators and bound variables", () => {
+  expect(mathTree("\\sum_{i=1}^{n} a_i"), [[["BigOp", "\\sum", "_", ["Equal", "i", "=", "1"], "^", "n", ["BinOp", "a", "_", "i"]]], []]);
+  expect(mathTree("\\prod_{k=1}^n k + 1"), [[["BinOp", ["BigOp", "\\prod", "_", ["Equal", "k", "=", "1"], "^", "n", "k"], "+", "1"]], []]);
+  expect(mathTree("\\int_0^1 f(x)\\,dx"), [[["BigOp", "\\int", "_", "0", "^", "1", ["ImplicitMul", "f", ["Grouping", "x"]], ["Differential", "d", "x"]]], []]);
+  expect(mathTree("\\sum"), [[["BigOp", "\\sum", ["Missing"]]], ["Expected expression"]]);
+  const integral = mathNode("\\int_0^1 f(x)\\,dx");
+  expect(integral instanceof math.BigOp ? [integral.operator(), integral.isIntegral(), integral.lower() instanceof math.Literal, integral.upper() instanceof math.Literal, integral.body() instanceof math.ImplicitMul, integral.bodyRange()] : null, [
+    "int", true, true, true, true, { start: 9, end: 13 },
+  ], "BigOp wrapper");
+  const limit = mathNode("\\lim_{x \\to 0} f(x)");
+  expect(limit instanceof math.BigOp ? [limit.upper(), limit.variables().map((variable) => variable.tokenData)] : null, [null, ["x"]], "variable of a limit");
+  const boundIn = (text: string) => math.bindings(new math.MathParser(new math.MathLexer(text)).parse());
+  expect(boundIn("\\bigcup_{i \\in I} A_i"), [{ name: "i", binder: { start: 9, end: 10 }, scope: { start: 18, end: 21 } }], "bindings of a union");
+  expect(boundIn("\\max_{x} g"), [{ name: "x", binder: { start: 6, end: 7 }, scope: { start: 9, end: 10 } }], "bindings of a maximum");
+  // (nested operators, from the outermost to the innermost)
+  expect(boundIn("\\sum_i \\sum_j a_{ij}"), [
+    { name: "i", binder: { start: 5, end: 6 }, scope: { start: 7, end: 20 } },
+    { name: "j", binder: { start: 12, end: 13 }, scope: { start: 14, end: 20 } },
+  ], "bindings of nested sums");
+  expect(boundIn("\\int\\int f \\, dx\\, dy").map((binding) => [binding.name, binding.scope]), [["y", { start: 4, end: 16 }], ["x", { start: 9, end: 10 }]], "bindings of a double integral");
+});
+
+// Extraction
+
+// the parse trees (see mathElement) and diagnostics of the math regions of a document
+function regions(text: string): [unknown, string[]][] {
+  return extractMath(parseLatex(text).root).map((region) =>
+    [region.tree?.children.map(mathElement) ?? null, region.diagnostics.map((d) => d.message)]);
+}
+
+check("extract: regions and source mapping", () => {
+  const text = "a $x$ b $$y$$\n\\(z\\) \\[w\\]\n\\begin{align*}\n  u &= v +\n\\end{align*}";
+  const extracted = extractMath(parseLatex(text).root);
+  expect(extracted.map((region) => [MathRegionKind[region.kind], region.display, region.environment, region.text, region.range, region.contentRange]), [
+    ["Dollar", false, null, "x", { start: 2, end: 5 }, { start: 3, end: 4 }],
+    ["DoubleDollar", true, null, "y", { start: 8, end: 13 }, { start: 10, end: 11 }],
+    ["Paren", false, null, "z", { start: 14, end: 19 }, { start: 16, end: 17 }],
+    ["Bracket", true, null, "w", { start: 20, end: 25 }, { start: 22, end: 23 }],
+    ["Environment", true, "align*", "\n  u &= v +\n", { start: 26, end: 64 }, { start: 40, end: 52 }],
+  ], "regions");
+  const align = extracted[4];
+  expect(align.offsets.lineCol(align.text.indexOf("u")), { line: 3, col: 2 }, "position of u");
+  expect(align.diagnostics.map((d) => [d.message, d.range]), [["Expected expression", { start: 52, end: 52 }]], "diagnostics");
+});
+
+check("extract: aligned rows", () => {
+  expect(regions("\\begin{align}\nx &= 1 \\\\\ny &= 2 \\\\*[2pt]\n&= 3\n\\end{align}"), [[
+    [["Equal", "x", "=", "1"], "\\\\", ["Equal", "y", "=", "2"], "\\\\", ["Equal", ["Missing"], "=", "3"]],
+    [],
+  ]]);
+});
+
+check("extract: labels, tags and text are skipped", () => {
+  expect(regions("\\begin{equation}\\label{eq:1} x = 1\\end{equation}"), [[[["Equal", "x", "=", "1"]], []]]);
+  expect(regions("\\begin{align*} a = b \\tag*{(1)} \\nonumber \\end{align*}"), [[[["Equal", "a", "=", "b"]], []]]);
+  expect(regions("$$\\text{if {a} } x$$"), [[["x"], []]]);
+});
+
+// Incremental reparsing
+
+// checks that incremental reparsing agrees with a full reparse on random edits
+function incremental(seed: number, edits: number): boolean {
+  const random = generator(seed);
+  let text = INITIAL;
+  let result = parseLatex(text);
+  for (let i = 0; i < edits; i++) {
+    const start = random(text.length + 1);
+    const end = Math.min(text.length, start + random(3));
+    const edit = { range: { start, end }, text: random(3) === 0 ? "" : SNIPPETS[random(SNIPPETS.length)] };
+
+    const before = text;
+    result = reparseLatex(text, result, edit);
+    text = text.slice(0, start) + edit.text + text.slice(end);
+
+    const expected = parseLatex(text);
+    if (!parseTreeEquals(result.root, expected.root) || JSON.stringify(result.diagnostics) !== JSON.stringify(expected.diagnostics)) {
+      console.error(`incremental: mismatch with seed ${seed} after edit ${i}`);
+      console.error(`  text: ${JSON.stringify(before)}`);
+      console.error(`  edit: ${JSON.stringify(edit)}`);
+      return false;
+    }
+  }
+  return true;
+}
+
+check("incremental: random edits", () => {
+  let ok = true;
+  for (let seed = 1; seed <= 50; seed++) {
+    ok = incremental(seed, 200) && ok;
+  }
+  expect(ok, true, "agreement with a full reparse");
+});
+
+check("incremental: nodes after the edit are reused", () => {
+  const text = "{a} {b} \\section{c}";
+  const previous = parseLatex(text);
+  const result = reparseLatex(text, previous, { range: { start: 2, end: 2 }, text: "xyz" });
+  const expected = parseLatex("{axyz} {b} \\section{c}");
+  expect(parseTreeEquals(result.root, expected.root), true, "agreement with a full reparse");
+  expect(dumpTree(result.root, TokenType, SyntaxKind), dumpTree(expected.root, TokenType, SyntaxKind), "tree dump");
+  const before = previous.root.children;
+  const after = result.root.children;
+  expect(before.length, after.length, "number of nodes");
+  expect(after.map((child, i) => child === before[i]), [false, true, true, true, true], "reused nodes");
+});
+
+if (failures > 0) {
+  console.error(`${failures} failed`);
+  process.exit(1);
+}
+console.log("ok");
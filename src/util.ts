@@ -18,7 +18,8 @@ export type Maybe<T> = T | null
 
 export function alphabetic(c: string) {
   assert(c.length == 1)
-  return "abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ".includes(c[0])
+  const code = c.charCodeAt(0);
+  return (code >= 65 && code <= 90) || (code >= 97 && code <= 122) // A-Z or a-z
 }
 
 export function whitespace(c: string) {
@@ -27,8 +28,17 @@ export function whitespace(c: string) {
 
 export type Enum = symbol | number | string
 
+// a TokenType or SyntaxKind enum
+export type EnumObject = { [name: string]: number | string };
+
 // returns the number of elements in a zero-indexed enum
 export function enumSize<E extends Enum>(e: E) {
   return Object.values(e).length / 2
 }
 
+
+// a half-open range [start, end) of offsets into a source text
+export interface TextRange {
+  start: number,
+  end: number,
+}